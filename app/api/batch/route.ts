@@ -0,0 +1,144 @@
+import { NextResponse } from 'next/server'
+import { authorizeCaller, chargeCaller, checkLLMConfig } from '@/lib/analysisService'
+import { checkBatchQuota, dedupeBatch, runBatch } from '@/lib/batch'
+import { rateLimitHeaders } from '@/lib/rateLimitUpstash'
+import { getSessionUser } from '@/lib/supabaseAuth'
+import { batchSchema, whatsappExportSchema, type BatchItemInput } from '@/lib/validations'
+import { planWhatsAppExport, rankWhatsAppResults, type WhatsAppExportPlan } from '@/lib/whatsappExport'
+
+export const runtime = 'nodejs'
+
+/** CORS headers — same as /api/check */
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+  'Access-Control-Expose-Headers': 'X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After',
+  'Access-Control-Max-Age': '86400',
+}
+
+/* Preflight CORS */
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS })
+}
+
+/**
+ * Analyze up to BATCH_MAX_ITEMS texts/links in one request. Duplicates (same
+ * fingerprint) are analyzed once; every item gets its own result or error.
+ * With `inputType: 'whatsapp_export'`, the items are the forwarded messages
+ * and links found in an exported chat, returned ranked by risk.
+ * Logged-in users (the /batch page) or per-user API keys only.
+ */
+export async function POST(req: Request) {
+  let limitHeaders: Record<string, string> = {}
+  const reply = (data: unknown, status = 200, extra: Record<string, string> = {}) =>
+    NextResponse.json(data, { status, headers: { ...CORS, ...limitHeaders, ...extra } })
+
+  try {
+    // ── 1. Who is calling: API key, or session (+ rate limit by IP) ──
+    const caller = await authorizeCaller(req)
+    if (!caller.ok) {
+      return reply({ ok: false, error: caller.error, message: caller.message }, caller.status, caller.headers)
+    }
+    limitHeaders = caller.limitHeaders
+    const user = caller.apiKey ? null : await getSessionUser()
+    if (!caller.apiKey && !user) {
+      return reply({ ok: false, error: 'AUTH_REQUIRED', message: 'Análise em lote disponível apenas para usuários logados ou com chave de API.' }, 401)
+    }
+
+    // ── 2. Validate input (item list, or a WhatsApp chat export to pick items from) ──
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return reply({ ok: false, error: 'VALIDATION', message: 'Corpo da requisição não é um JSON válido.' }, 400)
+    }
+    let items: BatchItemInput[]
+    let whatsapp: WhatsAppExportPlan | null = null
+
+    if (body?.inputType === 'whatsapp_export') {
+      const parsed = whatsappExportSchema.safeParse(body)
+      if (!parsed.success) {
+        return reply({ ok: false, error: 'VALIDATION', message: parsed.error.errors[0]?.message || 'Dados inválidos.' }, 400)
+      }
+      const planned = planWhatsAppExport(parsed.data.content)
+      if (!planned.ok) {
+        return reply({ ok: false, error: 'EXTRACTION_FAILED', message: planned.message }, 422)
+      }
+      whatsapp = planned.plan
+      items = whatsapp.candidates.map(c => c.item)
+      if (items.length === 0) {
+        return reply({ ok: true, inputType: 'whatsapp_export', chat: whatsapp.chat, found: 0, analyzed: 0, succeeded: 0, failed: 0, warnings: whatsapp.warnings, items: [] })
+      }
+    } else {
+      const parsed = batchSchema.safeParse(body)
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0]
+        const item = issue?.path[0] === 'items' && typeof issue.path[1] === 'number' ? `Item ${issue.path[1] + 1}: ` : ''
+        return reply({ ok: false, error: 'VALIDATION', message: item + (issue?.message || 'Dados inválidos.') }, 400)
+      }
+      items = parsed.data.items
+    }
+
+    const firstOf = dedupeBatch(items)
+    const unique = firstOf.filter((first, i) => first === i).length
+
+    // ── 3. Check LLM provider config ──
+    const misconfig = checkLLMConfig()
+    if (misconfig) {
+      return reply({ ok: false, error: misconfig.error, message: misconfig.message }, misconfig.status)
+    }
+
+    // ── 4. Charge one request per unique item (API key quota, or the daily batch quota) ──
+    const charged = await chargeCaller(caller, { cost: unique })
+    if (!charged.ok) {
+      return reply({ ok: false, error: charged.error, message: charged.message }, charged.status, charged.headers)
+    }
+    limitHeaders = charged.limitHeaders
+
+    if (user) {
+      const quota = await checkBatchQuota(user.id, unique)
+      limitHeaders = rateLimitHeaders(quota)
+      if (!quota.allowed) {
+        const retryAfter = Math.max(1, Math.ceil((quota.reset - Date.now()) / 1000))
+        return reply({
+          ok: false,
+          error: 'QUOTA_EXCEEDED',
+          message: `Cota diária de análises em lote esgotada (restam ${Math.max(0, quota.remaining)} de ${quota.limit}).`,
+        }, 429, { 'Retry-After': String(retryAfter) })
+      }
+    }
+
+    // ── 5. Analyze unique items with bounded concurrency ──
+    const results = await runBatch(items, firstOf)
+    const succeeded = results.filter(r => r.ok).length
+
+    console.log(`[api/batch] ${whatsapp ? 'WhatsApp export: ' : ''}${items.length} items (${unique} unique): ${succeeded} ok, ${results.length - succeeded} failed`)
+
+    if (whatsapp) {
+      return reply({
+        ok: true,
+        inputType: 'whatsapp_export',
+        chat: whatsapp.chat,
+        found: whatsapp.found,
+        analyzed: items.length,
+        succeeded,
+        failed: results.length - succeeded,
+        warnings: whatsapp.warnings,
+        items: rankWhatsAppResults(whatsapp.candidates, results),
+      })
+    }
+
+    return reply({
+      ok: true,
+      total: items.length,
+      unique,
+      succeeded,
+      failed: results.length - succeeded,
+      items: results,
+    })
+  } catch (err) {
+    console.error('[api/batch] error:', err)
+    return reply({ ok: false, error: 'INTERNAL', message: 'Falha ao processar o lote. Tente novamente.' }, 500)
+  }
+}
@@ -1,11 +1,7 @@
 import { NextResponse } from 'next/server'
-import { isGeminiConfigured } from '@/lib/gemini'
-import { analyzePipeline } from '@/lib/analyzePipeline'
-import { createServerSupabase } from '@/lib/supabaseServer'
-import { checkRateLimitAsync } from '@/lib/rateLimitUpstash'
-import { analyzeSchema, sanitizeForLLM, isValidUrl } from '@/lib/validations'
-import { extractFromUrl, isYouTubeUrl } from '@/lib/services/extractor'
-import { extractAudioTranscript } from '@/lib/services/extractor.audio'
+import { authorizeCaller, chargeCaller, checkLLMConfig, runAnalysis, verifyCaller, type AnalysisInput } from '@/lib/analysisService'
+import { analyzeSchema } from '@/lib/validations'
+import { acceptsEventStream, encodeSseEvent, SSE_CONTENT_TYPE } from '@/lib/sse'
 
 export const runtime = 'nodejs'
 
@@ -13,10 +9,14 @@ export const runtime = 'nodejs'
 const CORS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+  'Access-Control-Expose-Headers': 'X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After',
   'Access-Control-Max-Age': '86400',
 }
 
+/** Comment frame interval that keeps proxies from closing an idle stream */
+const SSE_KEEPALIVE_MS = 15_000
+
 /* Preflight CORS */
 export function OPTIONS() {
   return new Response(null, { status: 204, headers: CORS })
@@ -27,158 +27,117 @@ function json(data: unknown, status = 200, extra: Record<string, string> = {}) {
   return NextResponse.json(data, { status, headers: { ...CORS, ...extra } })
 }
 
+/**
+ * Run the analysis as an event stream: `progress` events while it runs, then
+ * a single `result` (same body as the JSON response) or `error` event.
+ * Failures inside the stream cannot change the HTTP status, so they travel
+ * as `{ ok: false, error, message }` in the `error` event.
+ */
+function streamAnalysis(input: AnalysisInput, headers: Record<string, string>) {
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+      const send = (event: string, data: unknown) => write(encodeSseEvent(event, data))
+      const keepAlive = setInterval(() => write(': ping\n\n'), SSE_KEEPALIVE_MS)
+
+      try {
+        const outcome = await runAnalysis(input, { onProgress: event => send('progress', event) })
+        if (outcome.ok) send('result', outcome.result)
+        else send('error', { ok: false, error: outcome.error, message: outcome.message })
+      } catch (err) {
+        console.error('[api/check] stream error:', err)
+        send('error', { ok: false, error: 'ANALYZE_FAILED', message: 'Falha ao analisar no servidor. Tente novamente.' })
+      } finally {
+        clearInterval(keepAlive)
+        if (!closed) controller.close()
+        closed = true
+      }
+    },
+    cancel() {
+      // Client went away — the analysis still finishes (and is cached/persisted)
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      ...CORS,
+      ...headers,
+      'Content-Type': `${SSE_CONTENT_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
+
 export async function POST(req: Request) {
-  try {
-    // ── 1. Rate limit by IP ──
-    const forwarded = req.headers.get('x-forwarded-for')
-    const ip = forwarded?.split(',')[0]?.trim() || 'unknown'
-    const rl = await checkRateLimitAsync(ip)
+  // X-RateLimit-* of whichever limit applies (API key quota or IP), sent on every response
+  let limitHeaders: Record<string, string> = {}
+  const reply = (data: unknown, status = 200, extra: Record<string, string> = {}) =>
+    json(data, status, { ...limitHeaders, ...extra })
 
-    if (!rl.allowed) {
-      return json({ ok: false, error: 'RATE_LIMITED', message: 'Muitas requisições. Aguarde um minuto.' }, 429, { 'Retry-After': '60' })
+  try {
+    // ── 1. API key (Authorization: Bearer fnv_live_…) or rate limit by IP ──
+    const caller = await authorizeCaller(req)
+    if (!caller.ok) {
+      return reply({ ok: false, error: caller.error, message: caller.message }, caller.status, caller.headers)
     }
+    limitHeaders = caller.limitHeaders
 
     // ── 2. Parse body ──
-    const body = await req.json()
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return reply({ ok: false, error: 'VALIDATION', message: 'Corpo da requisição não é um JSON válido.' }, 400)
+    }
 
     // ── 3. Validate input ──
     const parsed = analyzeSchema.safeParse(body)
     if (!parsed.success) {
       const firstError = parsed.error.errors[0]?.message || 'Dados inválidos.'
-      return json({ ok: false, error: 'VALIDATION', message: firstError }, 400)
-    }
-
-    const { inputType, content } = parsed.data
-
-    // ── 4. Check Gemini config ──
-    if (!isGeminiConfigured()) {
-      console.error('[api/check] GEMINI_API_KEY not configured')
-      return json({ ok: false, error: 'SERVER_MISCONFIG', message: 'GEMINI_API_KEY não configurada no servidor (Vercel).' }, 503)
-    }
-
-    // ── 5. Extract content from URL if inputType=link ──
-    let textForAnalysis = content
-    let sourceUrl: string | undefined
-    let effectiveInputType: string = inputType  // track if it becomes youtube_transcript
-    const extractionWarnings: string[] = []
-
-    if (inputType === 'link') {
-      if (!isValidUrl(content.trim())) {
-        return json({ ok: false, error: 'VALIDATION', message: 'URL inválida. Verifique o formato e tente novamente.' }, 400)
-      }
-
-      const isYT = isYouTubeUrl(content.trim())
-      console.log(`[api/check] URL extraction — isYouTube: ${isYT}, url: ${content.trim().slice(0, 100)}`)
-
-      const extraction = await extractFromUrl(content.trim())
-
-      if (!extraction.ok || !extraction.text) {
-        console.warn(`[api/check] Extraction failed: ${extraction.error}`)
-        return json({ ok: false, error: 'EXTRACTION_FAILED', message: extraction.error || 'Não foi possível extrair conteúdo do link.' }, 422)
-      }
-
-      textForAnalysis = extraction.text
-      sourceUrl = extraction.sourceUrl
-      extractionWarnings.push(...extraction.warnings)
-
-      if (isYT) {
-        effectiveInputType = 'youtube_transcript'
-        console.log(`[api/check] YouTube transcript obtained: ${textForAnalysis.length} chars`)
-      }
+      return reply({ ok: false, error: 'VALIDATION', message: firstError }, 400)
     }
 
-    // ── 5b. Extract transcript from audio if inputType=audio ──
-    if (inputType === 'audio') {
-      console.log(`[api/check] Audio transcription via Whisper-SRT...`)
-      const audioResult = await extractAudioTranscript(content)
+    const { inputType, content, force, turnstileToken } = parsed.data
 
-      if (!audioResult.ok || !audioResult.text) {
-        console.warn(`[api/check] Audio extraction failed: ${audioResult.error}`)
-        return json({ ok: false, error: 'EXTRACTION_FAILED', message: audioResult.error || 'Não foi possível transcrever o áudio.' }, 422)
-      }
-
-      textForAnalysis = audioResult.text
-      effectiveInputType = 'audio_transcript'
-      extractionWarnings.push(...audioResult.warnings)
-      console.log(`[api/check] Audio transcript obtained: ${textForAnalysis.length} chars`)
+    // ── 3a. Anti-bot (unless API key) and login for forced re-analysis ──
+    const denied = await verifyCaller(req, caller, { turnstileToken, force })
+    if (denied) {
+      return reply({ ok: false, error: denied.error, message: denied.message }, denied.status)
     }
 
-    // ── 6. Sanitize text before LLM (text, link, youtube and audio transcript types) ──
-    if (effectiveInputType === 'text' || effectiveInputType === 'youtube_transcript' || effectiveInputType === 'audio_transcript' || inputType === 'link') {
-      textForAnalysis = sanitizeForLLM(textForAnalysis, 10_000)
+    // ── 4. Check LLM provider config ──
+    const misconfig = checkLLMConfig()
+    if (misconfig) {
+      return reply({ ok: false, error: misconfig.error, message: misconfig.message }, misconfig.status)
     }
 
-    // ── 7. Run analysis pipeline ──
-    const result = await analyzePipeline(effectiveInputType, textForAnalysis)
-
-    // Attach extraction metadata
-    if (sourceUrl) {
-      result.meta = result.meta || {}
-      result.meta.sourceUrl = sourceUrl
-    }
-    if (extractionWarnings.length > 0) {
-      result.meta = result.meta || {}
-      result.meta.warnings = [
-        ...(result.meta.warnings || []),
-        ...extractionWarnings,
-      ]
+    // ── 4b. Charge the API key quota (the IP limit was counted in step 1) ──
+    const charged = await chargeCaller(caller)
+    if (!charged.ok) {
+      return reply({ ok: false, error: charged.error, message: charged.message }, charged.status, charged.headers)
     }
+    limitHeaders = charged.limitHeaders
 
-    // ── 8. Persist to Supabase (best-effort) ──
-    try {
-      const supabase = createServerSupabase()
-      const inputSummary = (inputType === 'link' ? `[${content.trim()}] ` : '') + textForAnalysis.slice(0, 500)
-
-      await supabase.from('analyses').insert({
-        input_type: inputType,
-        input_summary: inputSummary,
-        scores: result.scores,
-        verdict: result.summary?.verdict || 'Inconclusivo',
-        report_markdown: result.reportMarkdown,
-        claims: result.claims || [],
-        fingerprint: result.meta?.fingerprint || null,
-        is_flagged: (result.scores?.fakeProbability || 0) >= 70,
-      })
-    } catch (dbErr) {
-      console.error('[api/check] Supabase insert failed (non-blocking):', dbErr)
+    // ── 5. Extract, analyze (or reuse cache), persist ──
+    if (acceptsEventStream(req)) {
+      return streamAnalysis({ inputType, content, force }, limitHeaders)
     }
 
-    // ── 9. Update trending aggregation (best-effort) ──
-    try {
-      const supabase = createServerSupabase()
-      const fp = result.meta?.fingerprint
-      if (fp && result.summary?.headline) {
-        const { data: existing } = await supabase
-          .from('trending_items')
-          .select('id, occurrences')
-          .eq('fingerprint', fp)
-          .maybeSingle()
-
-        if (existing) {
-          await supabase.from('trending_items').update({
-            occurrences: (existing.occurrences || 1) + 1,
-            last_seen: new Date().toISOString(),
-            score_fake_probability: result.scores?.fakeProbability || 0,
-          }).eq('id', existing.id)
-        } else {
-          await supabase.from('trending_items').insert({
-            title: result.summary.headline,
-            reason: result.summary.oneParagraph?.slice(0, 300) || '',
-            fingerprint: fp,
-            sample_claims: (result.claims || []).slice(0, 3),
-            score_fake_probability: result.scores?.fakeProbability || 0,
-            occurrences: 1,
-            last_seen: new Date().toISOString(),
-          })
-        }
-      }
-    } catch (trendErr) {
-      console.error('[api/check] trending update failed (non-blocking):', trendErr)
+    const outcome = await runAnalysis({ inputType, content, force })
+    if (!outcome.ok) {
+      return reply({ ok: false, error: outcome.error, message: outcome.message }, outcome.status)
     }
 
-    return json(result)
+    return reply(outcome.result)
   } catch (err: any) {
     console.error('[api/check] error:', err)
-    return json({ ok: false, error: 'ANALYZE_FAILED', message: 'Falha ao analisar no servidor. Tente novamente.' }, 500)
+    return reply({ ok: false, error: 'ANALYZE_FAILED', message: 'Falha ao analisar no servidor. Tente novamente.' }, 500)
   }
 }
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { failStaleJobs } from '@/lib/jobs'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+/* Marks stale async jobs as failed and sends their pending webhooks */
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const key = url.searchParams.get('key') || ''
+  if (!process.env.CRON_SECRET || key !== process.env.CRON_SECRET) {
+    return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const failed = await failStaleJobs()
+    return NextResponse.json({ ok: true, failed: failed.length })
+  } catch (err) {
+    console.error('[api/cron/jobs] error:', err)
+    return NextResponse.json({ ok: false, error: 'INTERNAL', message: 'Erro interno do servidor.' }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { getJob } from '@/lib/jobs'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+}
+
+/* Job status / progress, with the full result once done */
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json({ ok: false, error: 'VALIDATION', message: 'Identificador de análise inválido.' }, { status: 400, headers: HEADERS })
+  }
+
+  try {
+    const job = await getJob(params.id)
+    if (!job) {
+      return NextResponse.json({ ok: false, error: 'NOT_FOUND', message: 'Análise não encontrada.' }, { status: 404, headers: HEADERS })
+    }
+    return NextResponse.json({ ok: true, job }, { headers: HEADERS })
+  } catch (err) {
+    console.error('[api/jobs] status error:', err)
+    return NextResponse.json({ ok: false, error: 'INTERNAL', message: 'Erro interno do servidor.' }, { status: 500, headers: HEADERS })
+  }
+}
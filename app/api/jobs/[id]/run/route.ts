@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { runJob } from '@/lib/jobs'
+import { isTokenSecretConfigured, verifySignedToken } from '@/lib/tokens'
+
+export const runtime = 'nodejs'
+
+interface RunPayload {
+  purpose: string
+  jobId: string
+}
+
+/**
+ * Internal: executes a queued job in its own invocation.
+ * Called by dispatchJob() with a short-lived signed token.
+ */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  // Tokens signed with the dev default secret could be forged by anyone
+  if (!isTokenSecretConfigured()) {
+    console.error('[api/jobs] run refused: UNSUB_SECRET/TOKEN_SECRET not configured')
+    return NextResponse.json({ ok: false, error: 'SERVER_MISCONFIG', message: 'TOKEN_SECRET não configurado no servidor.' }, { status: 503 })
+  }
+
+  const auth = req.headers.get('authorization') || ''
+  const payload = verifySignedToken<RunPayload>(auth.replace(/^Bearer\s+/i, ''))
+
+  if (!payload || payload.purpose !== 'job-run' || payload.jobId !== params.id) {
+    return NextResponse.json({ ok: false, error: 'AUTH_REQUIRED', message: 'Token inválido.' }, { status: 401 })
+  }
+
+  await runJob(params.id)
+  return NextResponse.json({ ok: true })
+}
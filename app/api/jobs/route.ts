@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server'
+import { authorizeCaller, chargeCaller, checkLLMConfig, verifyCaller } from '@/lib/analysisService'
+import { createJob, dispatchJob, isJobDispatchConfigured } from '@/lib/jobs'
+import { assertPublicUrl, UnsafeUrlError } from '@/lib/services/safeFetch'
+import { analyzeJobSchema } from '@/lib/validations'
+
+export const runtime = 'nodejs'
+
+/** CORS headers — same as /api/check */
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+  'Access-Control-Expose-Headers': 'X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Retry-After, Location',
+  'Access-Control-Max-Age': '86400',
+}
+
+/* Preflight CORS */
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS })
+}
+
+/**
+ * Queue an analysis and return immediately (202) with the job id.
+ * Poll GET /api/jobs/:id, or register `webhookUrl` (API key callers).
+ */
+export async function POST(req: Request) {
+  let limitHeaders: Record<string, string> = {}
+  const reply = (data: unknown, status = 200, extra: Record<string, string> = {}) =>
+    NextResponse.json(data, { status, headers: { ...CORS, ...limitHeaders, ...extra } })
+
+  try {
+    // ── 1. API key or rate limit by IP ──
+    const caller = await authorizeCaller(req)
+    if (!caller.ok) {
+      return reply({ ok: false, error: caller.error, message: caller.message }, caller.status, caller.headers)
+    }
+    limitHeaders = caller.limitHeaders
+
+    // ── 2. Validate input ──
+    let body: any
+    try {
+      body = await req.json()
+    } catch {
+      return reply({ ok: false, error: 'VALIDATION', message: 'Corpo da requisição não é um JSON válido.' }, 400)
+    }
+    const parsed = analyzeJobSchema.safeParse(body)
+    if (!parsed.success) {
+      const firstError = parsed.error.errors[0]?.message || 'Dados inválidos.'
+      return reply({ ok: false, error: 'VALIDATION', message: firstError }, 400)
+    }
+
+    const { inputType, content, force, turnstileToken, webhookUrl } = parsed.data
+
+    // ── 2b. Webhooks are for API key callers, and must point to a public address ──
+    if (webhookUrl) {
+      if (!caller.apiKey) {
+        return reply({ ok: false, error: 'VALIDATION', message: 'webhookUrl requer autenticação com chave de API.' }, 400)
+      }
+      try {
+        await assertPublicUrl(webhookUrl)
+      } catch (err) {
+        const message = err instanceof UnsafeUrlError ? err.message : 'URL de webhook inválida.'
+        return reply({ ok: false, error: 'VALIDATION', message: `webhookUrl: ${message}` }, 400)
+      }
+    }
+
+    // ── 3. Anti-bot (unless API key), login for force, LLM config ──
+    const denied = await verifyCaller(req, caller, { turnstileToken, force })
+    if (denied) {
+      return reply({ ok: false, error: denied.error, message: denied.message }, denied.status)
+    }
+    const misconfig = checkLLMConfig()
+    if (misconfig) {
+      return reply({ ok: false, error: misconfig.error, message: misconfig.message }, misconfig.status)
+    }
+    if (!isJobDispatchConfigured()) {
+      console.error('[api/jobs] UNSUB_SECRET/TOKEN_SECRET not configured: http dispatch cannot sign run requests')
+      return reply({ ok: false, error: 'SERVER_MISCONFIG', message: 'TOKEN_SECRET não configurado no servidor.' }, 503)
+    }
+
+    // ── 3b. Charge the API key quota (the IP limit was counted in step 1) ──
+    const charged = await chargeCaller(caller)
+    if (!charged.ok) {
+      return reply({ ok: false, error: charged.error, message: charged.message }, charged.status, charged.headers)
+    }
+    limitHeaders = charged.limitHeaders
+
+    // ── 4. Persist and dispatch ──
+    const { id, webhookSecret } = await createJob({ inputType, content, force, apiKeyId: caller.apiKey?.id, webhookUrl })
+    await dispatchJob(id)
+
+    const statusUrl = `/api/jobs/${id}`
+    return reply({
+      ok: true,
+      jobId: id,
+      status: 'queued',
+      statusUrl,
+      ...(webhookSecret ? { webhookSecret } : {}),
+    }, 202, { Location: statusUrl })
+  } catch (err) {
+    console.error('[api/jobs] error:', err)
+    return reply({ ok: false, error: 'INTERNAL', message: 'Não foi possível criar a análise. Tente novamente.' }, 500)
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getSessionUser } from '@/lib/supabaseAuth'
+import { ApiKeyError, revokeApiKey } from '@/lib/apiKeys'
+
+export const runtime = 'nodejs'
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/* Revoke one of the logged-in user's keys (takes effect immediately) */
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ ok: false, error: 'AUTH_REQUIRED', message: 'Entre na sua conta para gerenciar chaves de API.' }, { status: 401 })
+  }
+
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json({ ok: false, error: 'VALIDATION', message: 'Identificador de chave inválido.' }, { status: 400 })
+  }
+
+  try {
+    const revoked = await revokeApiKey(user.id, params.id)
+    if (!revoked) {
+      return NextResponse.json({ ok: false, error: 'NOT_FOUND', message: 'Chave não encontrada ou já revogada.' }, { status: 404 })
+    }
+    return NextResponse.json({ ok: true, message: 'Chave revogada.' })
+  } catch (err) {
+    if (err instanceof ApiKeyError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: 500 })
+    }
+    console.error('[api/keys] revoke error:', err)
+    return NextResponse.json({ ok: false, error: 'INTERNAL', message: 'Erro interno do servidor.' }, { status: 500 })
+  }
+}
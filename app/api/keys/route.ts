@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { getSessionUser } from '@/lib/supabaseAuth'
+import { ApiKeyError, createApiKey, listApiKeys } from '@/lib/apiKeys'
+import { apiKeyCreateSchema } from '@/lib/validations'
+
+export const runtime = 'nodejs'
+
+/* List the logged-in user's API keys with usage counters */
+export async function GET() {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ ok: false, error: 'AUTH_REQUIRED', message: 'Entre na sua conta para gerenciar chaves de API.' }, { status: 401 })
+  }
+
+  try {
+    const keys = await listApiKeys(user.id)
+    return NextResponse.json({ ok: true, keys })
+  } catch (err) {
+    console.error('[api/keys] list error:', err)
+    return NextResponse.json({ ok: false, error: 'INTERNAL', message: 'Erro ao carregar as chaves.' }, { status: 500 })
+  }
+}
+
+/* Issue a new key — the plaintext is returned only in this response */
+export async function POST(req: Request) {
+  const user = await getSessionUser()
+  if (!user) {
+    return NextResponse.json({ ok: false, error: 'AUTH_REQUIRED', message: 'Entre na sua conta para gerenciar chaves de API.' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ ok: false, error: 'VALIDATION', message: 'Corpo da requisição não é um JSON válido.' }, { status: 400 })
+  }
+
+  try {
+    const parsed = apiKeyCreateSchema.safeParse(body)
+    if (!parsed.success) {
+      const firstError = parsed.error.errors[0]?.message || 'Dados inválidos.'
+      return NextResponse.json({ ok: false, error: 'VALIDATION', message: firstError }, { status: 400 })
+    }
+
+    const { key, record } = await createApiKey(user, parsed.data.name)
+    return NextResponse.json({
+      ok: true,
+      key,
+      record,
+      message: 'Chave criada. Copie agora — ela não será exibida novamente.',
+    })
+  } catch (err) {
+    if (err instanceof ApiKeyError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.code === 'KEY_LIMIT' ? 409 : 500 })
+    }
+    console.error('[api/keys] create error:', err)
+    return NextResponse.json({ ok: false, error: 'INTERNAL', message: 'Erro interno do servidor.' }, { status: 500 })
+  }
+}
@@ -1,8 +1,138 @@
 import { ImageResponse } from '@vercel/og'
+import { createServerSupabase } from '@/lib/supabaseServer'
+import { toVerdict, verdictColor, verdictEmoji } from '@/lib/verdicts'
 
 export const runtime = 'edge'
 
-export async function GET() {
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const SIZE = { width: 1200, height: 630 }
+
+const SCORE_BARS = [
+  { key: 'fakeProbability', label: 'Risco de fake', color: '#ef4444' },
+  { key: 'verifiableTruth', label: 'Verificável', color: '#22c55e' },
+  { key: 'biasFraming', label: 'Viés / Framing', color: '#f59e0b' },
+  { key: 'manipulationRisk', label: 'Risco de manipulação', color: '#f97316' },
+] as const
+
+/**
+ * GET /api/og            → static brand card
+ * GET /api/og?id=<uuid>  → card for one analysis (verdict, headline, score bars)
+ */
+export async function GET(req: Request) {
+  const id = new URL(req.url).searchParams.get('id') || ''
+
+  if (UUID_REGEX.test(id)) {
+    try {
+      const supabase = createServerSupabase()
+      const { data: analysis } = await supabase
+        .from('analyses')
+        .select('verdict, scores, summary:result->summary')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (analysis) return resultCard(analysis)
+    } catch (err) {
+      console.error('[api/og] analysis lookup failed:', err)
+    }
+  }
+
+  return brandCard()
+}
+
+function clamp(value: unknown): number {
+  const n = Number(value)
+  return Number.isFinite(n) ? Math.max(0, Math.min(100, Math.round(n))) : 0
+}
+
+function resultCard(analysis: any) {
+  const verdict = toVerdict(analysis.verdict)
+  const color = verdictColor(verdict)
+  const scores = analysis.scores || {}
+  const rawHeadline: string = analysis.summary?.headline || 'Resultado da análise'
+  const headline = rawHeadline.length > 110 ? `${rawHeadline.slice(0, 107)}…` : rawHeadline
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          padding: '56px 64px',
+          background: 'linear-gradient(135deg, #0f1419 0%, #1a1f2e 50%, #0f172a 100%)',
+          fontFamily: 'system-ui, -apple-system, sans-serif',
+          position: 'relative',
+        }}
+      >
+        {/* Brand */}
+        <div style={{ display: 'flex', alignItems: 'baseline', gap: 8, fontSize: 26, fontWeight: 700 }}>
+          <span style={{ color: '#e2e8f0' }}>🔍 Fake</span>
+          <span style={{ color: '#1d9bf0' }}>News</span>
+          <span style={{ color: '#e2e8f0' }}>VerificaTon</span>
+        </div>
+
+        {/* Verdict badge */}
+        <div style={{ display: 'flex', marginTop: 36 }}>
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 12,
+              padding: '10px 24px',
+              borderRadius: 999,
+              background: `${color}26`,
+              border: `2px solid ${color}`,
+              color,
+              fontSize: 34,
+              fontWeight: 700,
+            }}
+          >
+            {verdictEmoji(verdict)} {verdict}
+          </div>
+        </div>
+
+        {/* Headline */}
+        <div style={{ display: 'flex', marginTop: 24, fontSize: 40, fontWeight: 700, color: '#f1f5f9', lineHeight: 1.2 }}>
+          {headline}
+        </div>
+
+        {/* Score bars */}
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 14, marginTop: 'auto' }}>
+          {SCORE_BARS.map(({ key, label, color: barColor }) => {
+            const value = clamp(scores[key])
+            return (
+              <div key={key} style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+                <span style={{ width: 300, fontSize: 22, color: '#94a3b8' }}>{label}</span>
+                <div style={{ display: 'flex', flex: 1, height: 16, borderRadius: 8, background: '#334155', overflow: 'hidden' }}>
+                  <div style={{ display: 'flex', width: `${value}%`, height: '100%', borderRadius: 8, background: barColor }} />
+                </div>
+                <span style={{ width: 80, textAlign: 'right', fontSize: 22, fontWeight: 700, color: '#e2e8f0' }}>{value}%</span>
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Bottom bar */}
+        <div
+          style={{
+            position: 'absolute',
+            bottom: 0,
+            left: 0,
+            right: 0,
+            height: 4,
+            background: 'linear-gradient(90deg, #1d9bf0, #6366f1, #1d9bf0)',
+            display: 'flex',
+          }}
+        />
+      </div>
+    ),
+    SIZE,
+  )
+}
+
+function brandCard() {
   return new ImageResponse(
     (
       <div
@@ -119,9 +249,6 @@ export async function GET() {
         />
       </div>
     ),
-    {
-      width: 1200,
-      height: 630,
-    },
+    SIZE,
   )
 }
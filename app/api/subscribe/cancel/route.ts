@@ -1,13 +1,10 @@
 import { NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabaseServer'
 import { checkRateLimitAsync } from '@/lib/rateLimitUpstash'
+import { verifyHuman } from '@/lib/turnstile'
 import { createSignedToken } from '@/lib/tokens'
 import { buildCancelConfirmationEmail, sendEmail } from '@/lib/resend'
-import { z } from 'zod'
-
-const cancelSchema = z.object({
-  email: z.string().email('E-mail inválido.'),
-})
+import { subscribeCancelSchema } from '@/lib/validations'
 
 export async function POST(req: Request) {
   try {
@@ -25,7 +22,7 @@ export async function POST(req: Request) {
     const body = await req.json()
 
     // ── Validate ──
-    const parsed = cancelSchema.safeParse(body)
+    const parsed = subscribeCancelSchema.safeParse(body)
     if (!parsed.success) {
       return NextResponse.json(
         { ok: false, error: 'VALIDATION', message: parsed.error.errors[0]?.message || 'Dados inválidos.' },
@@ -33,6 +30,15 @@ export async function POST(req: Request) {
       )
     }
 
+    // ── Anti-bot (Turnstile, or API key for server-to-server) ──
+    const human = await verifyHuman(req, parsed.data.turnstileToken, ip)
+    if (!human.ok) {
+      return NextResponse.json(
+        { ok: false, error: human.error, message: human.message },
+        { status: human.status },
+      )
+    }
+
     const { email } = parsed.data
     const supabase = createServerSupabase()
 
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabaseServer'
 import { checkRateLimitAsync } from '@/lib/rateLimitUpstash'
+import { verifyHuman } from '@/lib/turnstile'
 import { subscribeSchema } from '@/lib/validations'
 import { createSignedToken } from '@/lib/tokens'
 import { buildConfirmationEmail, sendEmail } from '@/lib/resend'
@@ -30,6 +31,15 @@ export async function POST(req: Request) {
       )
     }
 
+    // ── Anti-bot (Turnstile, or API key for server-to-server) ──
+    const human = await verifyHuman(req, parsed.data.turnstileToken, ip)
+    if (!human.ok) {
+      return NextResponse.json(
+        { ok: false, error: human.error, message: human.message },
+        { status: human.status },
+      )
+    }
+
     const { name, email, whatsapp } = parsed.data
     const supabase = createServerSupabase()
 
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { buildOpenApiDocument } from '@/lib/openapi'
+
+export const runtime = 'nodejs'
+
+// Built once per instance — the document only changes on deploy
+let document: ReturnType<typeof buildOpenApiDocument> | null = null
+
+export function GET() {
+  document = document || buildOpenApiDocument()
+  return NextResponse.json(document, {
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  })
+}
@@ -0,0 +1,338 @@
+'use client'
+import { useState } from 'react'
+import type { BatchItemResult } from '@/lib/batch'
+import { parseCsv, toCsv } from '@/lib/csv'
+import { BATCH_ITEM_MAX_CHARS, BATCH_MAX_ITEMS, type BatchItemInput } from '@/lib/validations'
+import type { whatsappExportResponseSchema } from '@/lib/validations/responses'
+import { verdictBadgeClass } from '@/lib/verdicts'
+import type { z } from 'zod'
+
+type WhatsAppExportResponse = z.infer<typeof whatsappExportResponseSchema>
+
+interface BatchPanelProps {
+  email: string
+}
+
+/** Rows accepted per upload (sent to /api/batch in chunks of BATCH_MAX_ITEMS) */
+const MAX_ROWS = 200
+/** Same limit as /api/check uploads */
+const MAX_EXPORT_SIZE = 4_500_000
+
+const CONTENT_HEADERS = ['content', 'conteudo', 'conteúdo', 'texto', 'mensagem', 'link', 'url']
+const TYPE_HEADERS = ['inputtype', 'tipo', 'type']
+
+/**
+ * CSV → batch items. With a header row, the content column is found by name
+ * (and an optional type column); otherwise the first column is the content.
+ * Rows without a type are links when they look like a URL, texts otherwise.
+ */
+function rowsToItems(rows: string[][]): BatchItemInput[] {
+  if (rows.length === 0) return []
+  const header = rows[0].map(h => h.trim().toLowerCase())
+  const contentCol = header.findIndex(h => CONTENT_HEADERS.includes(h))
+  const typeCol = header.findIndex(h => TYPE_HEADERS.includes(h))
+  const hasHeader = contentCol !== -1
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .map(r => {
+      const content = (r[hasHeader ? contentCol : 0] || '').trim().slice(0, BATCH_ITEM_MAX_CHARS)
+      const declared = typeCol !== -1 ? (r[typeCol] || '').trim().toLowerCase() : ''
+      const inputType: BatchItemInput['inputType'] =
+        declared === 'link' || declared === 'text' ? declared
+          : /^https?:\/\/\S+$/i.test(content) ? 'link' : 'text'
+      return { inputType, content }
+    })
+    .filter(item => item.content)
+}
+
+function downloadCsv(filename: string, csv: string) {
+  // BOM so Excel opens the accents correctly
+  const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url; a.download = filename; a.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function BatchPanel({ email }: BatchPanelProps) {
+  const [fileName, setFileName] = useState('')
+  const [items, setItems] = useState<BatchItemInput[]>([])
+  const [results, setResults] = useState<BatchItemResult[]>([])
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [error, setError] = useState('')
+  // WhatsApp chat export (.txt text or .zip data URL) and its ranked results
+  const [chatExport, setChatExport] = useState('')
+  const [ranked, setRanked] = useState<WhatsAppExportResponse | null>(null)
+
+  const handleFile = (file: File | undefined) => {
+    setError(''); setResults([]); setRanked(null); setChatExport(''); setItems([])
+    if (!file) return
+    if (/\.(txt|zip)$/i.test(file.name)) {
+      const isZip = /\.zip$/i.test(file.name)
+      // The zip travels as base64 (4/3 of its size)
+      if (file.size > (isZip ? MAX_EXPORT_SIZE * 0.75 : MAX_EXPORT_SIZE)) {
+        setError(`Arquivo muito grande (máx. ~${isZip ? '3' : '4,5'} MB). Exporte a conversa sem mídia.`); return
+      }
+      const reader = new FileReader()
+      reader.onload = (ev) => { setChatExport(String(ev.target?.result || '')); setFileName(file.name) }
+      if (isZip) reader.readAsDataURL(file)
+      else reader.readAsText(file)
+      return
+    }
+    const reader = new FileReader()
+    reader.onload = (ev) => {
+      const parsed = rowsToItems(parseCsv(String(ev.target?.result || '')))
+      if (parsed.length === 0) { setItems([]); setError('Nenhuma linha com conteúdo encontrada no arquivo.'); return }
+      if (parsed.length > MAX_ROWS) setError(`O arquivo tem ${parsed.length} linhas; apenas as primeiras ${MAX_ROWS} serão analisadas.`)
+      setItems(parsed.slice(0, MAX_ROWS)); setFileName(file.name)
+    }
+    reader.readAsText(file)
+  }
+
+  const handleRunExport = async () => {
+    setError(''); setRanked(null); setProgress({ done: 0, total: 1 })
+    try {
+      const res = await fetch('/api/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ inputType: 'whatsapp_export', content: chatExport }),
+      })
+      const data = await res.json()
+      if (!res.ok || !data.ok) setError(data.message || 'Erro ao analisar a conversa.')
+      else setRanked(data as WhatsAppExportResponse)
+    } catch {
+      setError('Erro de conexão. Tente novamente.')
+    }
+    setProgress(null)
+  }
+
+  const handleDownloadRanked = () => {
+    if (!ranked) return
+    const header = ['posicao', 'tipo', 'conteudo', 'vezes_enviada', 'pessoas', 'primeira_vez', 'ultima_vez', 'status', 'veredito', 'risco_fake', 'manipulacao', 'link', 'erro']
+    const rows = ranked.items.map(r => [
+      r.rank,
+      r.kind === 'link' ? 'link' : 'encaminhada',
+      r.excerpt,
+      r.occurrences,
+      r.sharedBy,
+      r.firstSeenAt.replace('T', ' '),
+      r.lastSeenAt.replace('T', ' '),
+      r.ok ? 'ok' : 'erro',
+      r.ok ? r.result.summary?.verdict || '' : '',
+      r.ok ? r.result.scores?.fakeProbability ?? '' : '',
+      r.ok ? r.result.scores?.manipulationRisk ?? '' : '',
+      r.ok ? r.result.resultUrl || '' : '',
+      r.ok ? '' : `${r.error}: ${r.message}`,
+    ])
+    const base = fileName.replace(/\.(txt|zip)$/i, '') || 'conversa'
+    downloadCsv(`${base}-ranking.csv`, toCsv([header, ...rows]))
+  }
+
+  const handleRun = async () => {
+    if (items.length === 0) return
+    setError(''); setResults([]); setProgress({ done: 0, total: items.length })
+
+    const collected: BatchItemResult[] = []
+    for (let offset = 0; offset < items.length; offset += BATCH_MAX_ITEMS) {
+      const chunk = items.slice(offset, offset + BATCH_MAX_ITEMS)
+      try {
+        const res = await fetch('/api/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items: chunk }),
+        })
+        const data = await res.json()
+        if (!res.ok || !data.ok) {
+          setError(data.message || 'Erro ao analisar o lote.')
+          break
+        }
+        // Indexes are per request; shift them to positions in the file
+        collected.push(...(data.items as BatchItemResult[]).map(r => ({
+          ...r,
+          index: r.index + offset,
+          ...(r.duplicateOf !== undefined ? { duplicateOf: r.duplicateOf + offset } : {}),
+        })))
+        setResults([...collected])
+        setProgress({ done: offset + chunk.length, total: items.length })
+      } catch {
+        setError('Erro de conexão. Os itens já analisados continuam disponíveis para download.')
+        break
+      }
+    }
+    setProgress(null)
+  }
+
+  const handleDownload = () => {
+    const header = ['item', 'tipo', 'conteudo', 'status', 'veredito', 'manchete', 'risco_fake', 'verdade_verificavel', 'vies', 'manipulacao', 'cache', 'duplicado_de', 'link', 'erro']
+    const rows = results.map(r => {
+      const item = items[r.index]
+      const res = r.ok ? r.result : null
+      return [
+        r.index + 1,
+        r.inputType,
+        item?.content || '',
+        r.ok ? 'ok' : 'erro',
+        res?.summary?.verdict || '',
+        res?.summary?.headline || '',
+        res?.scores?.fakeProbability ?? '',
+        res?.scores?.verifiableTruth ?? '',
+        res?.scores?.biasFraming ?? '',
+        res?.scores?.manipulationRisk ?? '',
+        res?.meta?.cached ? 'sim' : '',
+        r.duplicateOf !== undefined ? r.duplicateOf + 1 : '',
+        res?.resultUrl || '',
+        r.ok ? '' : `${r.error}: ${r.message}`,
+      ]
+    })
+    const base = fileName.replace(/\.csv$/i, '') || 'lote'
+    downloadCsv(`${base}-resultados.csv`, toCsv([header, ...rows]))
+  }
+
+  const running = progress !== null
+  const failed = results.filter(r => !r.ok).length
+
+  return (
+    <div className="max-w-4xl mx-auto px-6 pt-8 pb-16">
+      <h1 className="text-2xl font-bold dark:text-white mb-1">Análise em lote</h1>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+        Conectado como <strong className="dark:text-slate-200">{email}</strong>. Envie um CSV com mensagens ou links (um por linha), ou uma conversa exportada do WhatsApp, e baixe os resultados em CSV.
+      </p>
+
+      {/* ── Upload ── */}
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200/60 dark:border-slate-700/60 p-6 mb-6">
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-slate-200 dark:border-slate-600 rounded-2xl p-8 cursor-pointer hover:border-brand-400 dark:hover:border-brand-500 transition">
+          <span className="text-3xl mb-2">📄</span>
+          <span className="text-sm text-slate-600 dark:text-slate-300">{fileName || 'Escolher arquivo .csv, .txt ou .zip'}</span>
+          <input type="file" accept=".csv,text/csv,.txt,text/plain,.zip,application/zip" className="hidden" disabled={running} onChange={(e) => handleFile(e.target.files?.[0])} />
+        </label>
+        <p className="text-xs text-slate-400 mt-3">
+          Cabeçalho opcional: <code>content</code> (ou <code>conteudo</code>, <code>link</code>) e <code>tipo</code> (<code>text</code> ou <code>link</code>). Sem tipo, linhas que começam com http(s) são tratadas como links.
+          Até {MAX_ROWS} linhas por arquivo; mensagens repetidas são analisadas uma única vez.
+        </p>
+        <p className="text-xs text-slate-400 mt-2">
+          WhatsApp: abra o grupo, toque em <em>Mais → Exportar conversa</em> (Android) ou no nome do grupo → <em>Exportar conversa</em> (iPhone), de preferência sem mídia, e envie o .txt ou .zip.
+          Encontramos as mensagens com cara de corrente e os links compartilhados e analisamos os {BATCH_MAX_ITEMS} mais repetidos, do maior para o menor risco.
+        </p>
+
+        {chatExport && (
+          <div className="flex flex-wrap items-center justify-between gap-3 mt-5">
+            <p className="text-sm dark:text-slate-200">Conversa do WhatsApp carregada</p>
+            <button onClick={handleRunExport} disabled={running}
+              className="px-5 py-2.5 bg-brand-600 hover:bg-brand-700 text-white rounded-xl text-sm font-medium disabled:opacity-50 transition">
+              {running ? 'Analisando a conversa...' : 'Analisar conversa'}
+            </button>
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-3 mt-5">
+            <p className="text-sm dark:text-slate-200">
+              {items.length} {items.length === 1 ? 'item' : 'itens'} · {items.filter(i => i.inputType === 'link').length} links
+            </p>
+            <button onClick={handleRun} disabled={running}
+              className="px-5 py-2.5 bg-brand-600 hover:bg-brand-700 text-white rounded-xl text-sm font-medium disabled:opacity-50 transition">
+              {running ? `Analisando ${progress.done}/${progress.total}...` : 'Analisar lote'}
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-amber-700 dark:text-amber-300 mt-3">⚠️ {error}</p>}
+      </div>
+
+      {/* ── Ranking da conversa ── */}
+      {ranked && (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200/60 dark:border-slate-700/60 p-5 mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+            <p className="text-sm dark:text-slate-200">
+              {ranked.chat.messages} mensagens de {ranked.chat.participants} participantes · {ranked.found} candidatas · {ranked.analyzed} analisadas
+            </p>
+            {ranked.items.length > 0 && (
+              <button onClick={handleDownloadRanked}
+                className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-xl text-xs font-medium transition">
+                Baixar CSV
+              </button>
+            )}
+          </div>
+          {ranked.warnings.map(w => <p key={w} className="text-xs text-amber-700 dark:text-amber-300 mb-1">⚠️ {w}</p>)}
+          <ol className="mt-3 space-y-2">
+            {ranked.items.map(r => (
+              <li key={r.rank} className="flex gap-3 border-b border-slate-100 dark:border-slate-700/50 pb-2 text-xs">
+                <span className="text-slate-400 w-5 shrink-0">{r.rank}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="line-clamp-2 dark:text-slate-200" title={r.excerpt}>{r.kind === 'link' ? '🔗 ' : '↪️ '}{r.excerpt}</p>
+                  <p className="text-[10px] text-slate-400">
+                    Enviada {r.occurrences}× por {r.sharedBy} {r.sharedBy === 1 ? 'pessoa' : 'pessoas'} · última vez em {new Date(r.lastSeenAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}
+                  </p>
+                  {!r.ok && <p className="text-amber-700 dark:text-amber-300">{r.message}</p>}
+                </div>
+                {r.ok && (
+                  <div className="shrink-0 text-right">
+                    <span className={`inline-block px-2 py-0.5 rounded-full text-[10px] font-semibold ${verdictBadgeClass(r.result.summary?.verdict)}`}>
+                      {r.result.summary?.verdict || 'Inconclusivo'}
+                    </span>
+                    <p className="dark:text-slate-200 mt-1">{r.result.scores?.fakeProbability ?? '—'}%</p>
+                    {r.result.resultUrl && <a href={r.result.resultUrl} target="_blank" className="text-brand-600 dark:text-brand-400 hover:underline">Ver</a>}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* ── Resultados ── */}
+      {results.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200/60 dark:border-slate-700/60 p-5">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <p className="text-sm dark:text-slate-200">
+              {results.length - failed} analisados{failed > 0 ? ` · ${failed} com erro` : ''}
+            </p>
+            <button onClick={handleDownload} disabled={running}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-xl text-xs font-medium disabled:opacity-50 transition">
+              Baixar CSV
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                  <th className="py-2 pr-3">#</th>
+                  <th className="py-2 pr-3">Conteúdo</th>
+                  <th className="py-2 pr-3">Veredito</th>
+                  <th className="py-2 pr-3">Risco</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(r => (
+                  <tr key={r.index} className="border-b border-slate-100 dark:border-slate-700/50 align-top">
+                    <td className="py-2 pr-3 text-slate-400">{r.index + 1}</td>
+                    <td className="py-2 pr-3 max-w-xs">
+                      <p className="truncate dark:text-slate-200" title={items[r.index]?.content}>{items[r.index]?.content}</p>
+                      {r.duplicateOf !== undefined && <p className="text-[10px] text-slate-400">Repetido do item {r.duplicateOf + 1}</p>}
+                    </td>
+                    {r.ok ? (
+                      <>
+                        <td className="py-2 pr-3">
+                          <span className={`inline-block px-2 py-0.5 rounded-full text-[10px] font-semibold ${verdictBadgeClass(r.result.summary?.verdict)}`}>
+                            {r.result.summary?.verdict || 'Inconclusivo'}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-3 dark:text-slate-200">{r.result.scores?.fakeProbability ?? '—'}%</td>
+                        <td className="py-2">
+                          {r.result.resultUrl && <a href={r.result.resultUrl} target="_blank" className="text-brand-600 dark:text-brand-400 hover:underline">Ver</a>}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={3} className="py-2 text-amber-700 dark:text-amber-300">{r.message}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { getSessionUser } from '@/lib/supabaseAuth'
+import Nav from '@/components/Nav'
+import Footer from '@/components/Footer'
+import BatchPanel from './BatchPanel'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Análise em lote — Fake News VerificaTon',
+  robots: { index: false },
+}
+
+export default async function BatchPage() {
+  const user = await getSessionUser()
+  if (!user) redirect('/auth')
+
+  return (
+    <main className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-100 transition-colors">
+      <Nav />
+      <BatchPanel email={user.email || ''} />
+      <Footer />
+    </main>
+  )
+}
@@ -0,0 +1,165 @@
+'use client'
+import { useState } from 'react'
+import type { ApiKeyWithUsage } from '@/lib/apiKeys'
+
+interface ApiKeysPanelProps {
+  email: string
+  initialKeys: ApiKeyWithUsage[]
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return '—'
+  return new Date(value).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
+}
+
+export default function ApiKeysPanel({ email, initialKeys }: ApiKeysPanelProps) {
+  const [keys, setKeys] = useState<ApiKeyWithUsage[]>(initialKeys)
+  const [name, setName] = useState('')
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const reload = async () => {
+    const res = await fetch('/api/keys')
+    const data = await res.json()
+    if (data.ok) setKeys(data.keys)
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) { setError('Dê um nome para a chave.'); return }
+    setLoading(true); setError(''); setNewKey(null)
+    try {
+      const res = await fetch('/api/keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim() }),
+      })
+      const data = await res.json()
+      if (!res.ok || !data.ok) {
+        setError(data.message || 'Erro ao criar a chave.')
+      } else {
+        setNewKey(data.key); setName('')
+        await reload()
+      }
+    } catch {
+      setError('Erro de conexão. Tente novamente.')
+    }
+    setLoading(false)
+  }
+
+  const handleRevoke = async (key: ApiKeyWithUsage) => {
+    if (!confirm(`Revogar a chave "${key.name}"? Integrações que a usam deixarão de funcionar imediatamente.`)) return
+    setError('')
+    try {
+      const res = await fetch(`/api/keys/${key.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok || !data.ok) setError(data.message || 'Erro ao revogar a chave.')
+      await reload()
+    } catch {
+      setError('Erro de conexão. Tente novamente.')
+    }
+  }
+
+  const copyKey = () => {
+    if (!newKey) return
+    navigator.clipboard.writeText(newKey); setCopied(true); setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 pt-8 pb-16">
+      <h1 className="text-2xl font-bold dark:text-white mb-1">Chaves de API</h1>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+        Conectado como <strong className="dark:text-slate-200">{email}</strong>. Use uma chave para chamar o analisador a partir dos seus sistemas.
+      </p>
+
+      {/* ── Nova chave ── */}
+      <form onSubmit={handleCreate} className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200/60 dark:border-slate-700/60 p-6 mb-6">
+        <label className="block text-sm font-medium mb-1.5 dark:text-slate-200">Nome da chave</label>
+        <div className="flex gap-2">
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex.: Redação — produção" maxLength={60}
+            className="flex-1 px-4 py-2.5 bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-600 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-brand-500/50 dark:text-white placeholder-slate-400" />
+          <button type="submit" disabled={loading}
+            className="px-5 py-2.5 bg-brand-600 hover:bg-brand-700 text-white rounded-xl text-sm font-medium disabled:opacity-50 transition">
+            {loading ? 'Criando...' : 'Criar chave'}
+          </button>
+        </div>
+
+        {newKey && (
+          <div className="mt-4 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-xl animate-fade-in">
+            <p className="text-xs text-green-800 dark:text-green-200 mb-2">Copie a chave agora — por segurança ela não será exibida novamente.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs break-all bg-white dark:bg-slate-900 px-3 py-2 rounded-lg border border-green-200 dark:border-green-800">{newKey}</code>
+              <button type="button" onClick={copyKey} className="text-xs px-3 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition">
+                {copied ? 'Copiada!' : 'Copiar'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-amber-700 dark:text-amber-300 mt-3">⚠️ {error}</p>}
+      </form>
+
+      {/* ── Lista ── */}
+      {keys.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-8">Nenhuma chave criada ainda.</p>
+      ) : (
+        <div className="space-y-3">
+          {keys.map(k => (
+            <div key={k.id} className={`bg-white dark:bg-slate-800 rounded-2xl border border-slate-200/60 dark:border-slate-700/60 p-5 ${k.revoked_at ? 'opacity-60' : ''}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm font-medium dark:text-white">
+                    {k.name}
+                    {k.revoked_at && <span className="ml-2 text-[10px] px-2 py-0.5 rounded-full bg-slate-200 dark:bg-slate-700 text-slate-500">Revogada</span>}
+                  </p>
+                  <code className="text-xs text-slate-400">{k.key_prefix}…</code>
+                </div>
+                {!k.revoked_at && (
+                  <button onClick={() => handleRevoke(k)} className="text-xs text-red-500 hover:text-red-600 transition">Revogar</button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4 text-xs">
+                <div>
+                  <p className="text-slate-400">Hoje</p>
+                  <p className="font-medium dark:text-slate-200">{k.usage.today} / {k.daily_limit}</p>
+                </div>
+                <div>
+                  <p className="text-slate-400">Este mês</p>
+                  <p className="font-medium dark:text-slate-200">{k.usage.month} / {k.monthly_limit}</p>
+                </div>
+                <div>
+                  <p className="text-slate-400">Total</p>
+                  <p className="font-medium dark:text-slate-200">{k.usage.total}</p>
+                </div>
+                <div>
+                  <p className="text-slate-400">Último uso</p>
+                  <p className="font-medium dark:text-slate-200">{formatDate(k.last_used_at)}</p>
+                </div>
+              </div>
+              <p className="text-[10px] text-slate-400 mt-3">
+                Criada em {formatDate(k.created_at)}{k.revoked_at ? ` · revogada em ${formatDate(k.revoked_at)}` : ''}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* ── Exemplo ── */}
+      <div className="mt-8">
+        <h2 className="text-sm font-semibold dark:text-white mb-2">Como usar</h2>
+        <pre className="text-xs bg-slate-900 text-slate-100 rounded-xl p-4 overflow-x-auto">{`curl -X POST https://fakenewsverificaton.com.br/api/check \\
+  -H "Authorization: Bearer fnv_live_..." \\
+  -H "Content-Type: application/json" \\
+  -d '{"inputType":"text","content":"Texto a verificar"}'`}</pre>
+        <p className="text-xs text-slate-400 mt-2">
+          Para vários itens de uma vez, use <code>POST /api/batch</code> com <code>{'{"items":[{"inputType":"link","content":"https://..."}]}'}</code> (até 25 itens; cada item único consome uma requisição da cota) ou envie um CSV na página <a href="/batch" className="text-brand-600 dark:text-brand-400 underline hover:no-underline">Análise em lote</a>.
+        </p>
+        <p className="text-xs text-slate-400 mt-2">
+          As respostas trazem os cabeçalhos <code>X-RateLimit-Limit</code>, <code>X-RateLimit-Remaining</code> e <code>X-RateLimit-Reset</code>. Ao esgotar a cota, a API responde 429 (<code>QUOTA_EXCEEDED</code>).
+        </p>
+      </div>
+    </div>
+  )
+}
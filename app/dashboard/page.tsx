@@ -0,0 +1,34 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { getSessionUser } from '@/lib/supabaseAuth'
+import { listApiKeys, type ApiKeyWithUsage } from '@/lib/apiKeys'
+import Nav from '@/components/Nav'
+import Footer from '@/components/Footer'
+import ApiKeysPanel from './ApiKeysPanel'
+
+export const dynamic = 'force-dynamic'
+
+export const metadata: Metadata = {
+  title: 'Chaves de API — Fake News VerificaTon',
+  robots: { index: false },
+}
+
+export default async function DashboardPage() {
+  const user = await getSessionUser()
+  if (!user) redirect('/auth')
+
+  let keys: ApiKeyWithUsage[] = []
+  try {
+    keys = await listApiKeys(user.id)
+  } catch (err) {
+    console.error('[dashboard] failed to load api keys:', err)
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-100 transition-colors">
+      <Nav />
+      <ApiKeysPanel email={user.email || ''} initialKeys={keys} />
+      <Footer />
+    </main>
+  )
+}
@@ -3,15 +3,23 @@ import { useState, useEffect, useRef } from 'react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import rehypeRaw from 'rehype-raw'
+import rehypeSanitize from 'rehype-sanitize'
 import { useDarkMode } from '@/components/DarkModeProvider'
 import Nav from '@/components/Nav'
 import Footer from '@/components/Footer'
+import ImageRegions from '@/components/ImageRegions'
+import TranscriptView from '@/components/TranscriptView'
+import TurnstileWidget, { TURNSTILE_ENABLED } from '@/components/TurnstileWidget'
+import { verdictBadgeClass } from '@/lib/verdicts'
+import { readSseStream, SSE_CONTENT_TYPE } from '@/lib/sse'
+import { APP_URL } from '@/lib/urls'
+import type { AnalysisProgress } from '@/lib/validations/responses'
 
-type TabType = 'text' | 'link' | 'image' | 'audio'
+type TabType = 'text' | 'link' | 'image' | 'audio' | 'pdf'
 type LoadingState = 'idle' | 'loading' | 'error' | 'success'
 
 interface ApiError { ok: false; error: string; message: string }
-interface ReportResult { ok: true; meta: any; scores: any; summary: any; claims: any; similar: any; reportMarkdown: string }
+interface ReportResult { ok: true; meta: any; scores: any; summary: any; claims: any; similar: any; reportMarkdown: string; resultId?: string; resultUrl?: string }
 
 /* ─── Intersection Observer hook for scroll animations ─── */
 function useScrollReveal() {
@@ -33,14 +41,39 @@ function useScrollReveal() {
   return ref
 }
 
+/* ─── Progress steps (streamed by /verify) ─── */
+function progressLabel(p: AnalysisProgress): string {
+  switch (p.step) {
+    case 'extracting': return p.inputType === 'audio' ? 'Transcrevendo o áudio'
+      : p.inputType === 'pdf' ? 'Lendo o PDF'
+      : p.inputType === 'image' ? 'Lendo a imagem (texto e sinais técnicos)'
+      : 'Extraindo o conteúdo do link'
+    case 'extracted': return p.chars === 0 ? 'Nenhum texto reconhecido — a imagem será analisada diretamente' : `Conteúdo obtido: ${p.chars.toLocaleString('pt-BR')} caracteres${p.segments ? ` em ${p.segments} trechos` : ''}`
+    case 'cached': return p.nearDuplicate ? 'Mensagem parecida já analisada — reaproveitando o resultado' : 'Mensagem já analisada — reaproveitando o resultado'
+    case 'model': return p.attempt === 0 ? `Consultando a IA (${p.model})${p.part ? ` — parte ${p.part.index} de ${p.part.total}` : ''}` : `Corrigindo a resposta da IA (tentativa ${p.attempt + 1})`
+    case 'summary': return `Resumo preliminar (${p.part.done} de ${p.part.total} partes): ${p.summary.verdict} — ${p.summary.headline}`
+  }
+}
+
 /* ─── Tab config ─── */
+/** Audio goes through /api/jobs only where the job queue is set up (TOKEN_SECRET + migration 008) */
+const AUDIO_JOBS_ENABLED = process.env.NEXT_PUBLIC_AUDIO_JOBS === 'true'
+
 const TABS: { key: TabType; label: string; icon: string }[] = [
   { key: 'text', label: 'Texto', icon: '📝' },
   { key: 'link', label: 'Link', icon: '🔗' },
   { key: 'image', label: 'Imagem', icon: '🖼️' },
   { key: 'audio', label: 'Áudio', icon: '🎙️' },
+  { key: 'pdf', label: 'PDF', icon: '📄' },
 ]
 
+/* ─── File upload tabs ─── */
+const UPLOADS: Partial<Record<TabType, { accept: string; hint: string }>> = {
+  image: { accept: 'image/*', hint: 'Envie uma imagem (máx. 4,5 MB)' },
+  audio: { accept: 'audio/*', hint: 'Envie um áudio (máx. 4,5 MB)' },
+  pdf: { accept: 'application/pdf', hint: 'Envie um PDF (máx. 4,5 MB)' },
+}
+
 /* ─── Sources config ─── */
 const SOURCES = [
   { name: 'Agência Lupa', url: 'https://lupa.uol.com.br', desc: 'Maior agência de fact-checking do Brasil.' },
@@ -65,8 +98,14 @@ export default function Home() {
   const [pixCopied, setPixCopied] = useState(false)
   const [whatsCopied, setWhatsCopied] = useState(false)
   const [homeConsentChecked, setHomeConsentChecked] = useState(false)
+  const [turnstileToken, setTurnstileToken] = useState<string | null>(null)
+  const [turnstileKey, setTurnstileKey] = useState(0)
+  const [jobStage, setJobStage] = useState<string | null>(null)
+  const [progress, setProgress] = useState<AnalysisProgress[]>([])
 
   const MAX_UPLOAD_SIZE = 4_500_000
+  const JOB_POLL_MS = 2_000
+  const JOB_MAX_POLLS = 150 // 5 min
 
   /* scroll-reveal refs */
   const heroRef = useScrollReveal()
@@ -87,25 +126,48 @@ export default function Home() {
       setApiError({ ok: false, error: 'TOO_LARGE', message: 'Arquivo muito grande (máx. ~4.5 MB). Tente um menor.' })
       setLoading('error'); return
     }
+    if (TURNSTILE_ENABLED && !turnstileToken) {
+      setApiError({ ok: false, error: 'CAPTCHA_REQUIRED', message: 'Confirme que você não é um robô antes de continuar.' })
+      setLoading('error'); return
+    }
     setLoading('loading'); setApiError(null)
-    const MAX_RETRIES = 3
+    // Turnstile tokens are single-use: request a fresh challenge for the next analysis
+    const token = turnstileToken
+    setTurnstileToken(null); setTurnstileKey(k => k + 1)
+    // Audio can take minutes (transcription): queue a job and poll instead of holding the request open
+    if (activeTab === 'audio' && AUDIO_JOBS_ENABLED) return analyzeAsJob(token)
+    // A request that reached the server may have consumed the captcha token and
+    // started the analysis: retry only when no token is sent and nothing came back
+    const MAX_RETRIES = token ? 1 : 3
     for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      setProgress([])
+      let responded = false
+      const controller = new AbortController()
+      const timeout = setTimeout(() => controller.abort(), 180_000)
       try {
-        const controller = new AbortController()
-        const timeout = setTimeout(() => controller.abort(), 180_000)
         const res = await fetch('/verify', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ inputType: activeTab, content }),
+          headers: { 'Content-Type': 'application/json', Accept: `${SSE_CONTENT_TYPE}, application/json` },
+          body: JSON.stringify({ inputType: activeTab, content, turnstileToken: token }),
           signal: controller.signal,
         })
-        clearTimeout(timeout)
-        const data = await res.json()
+        responded = true
+        let data: any = null
+        if (res.ok && res.body && res.headers.get('content-type')?.includes(SSE_CONTENT_TYPE)) {
+          // Progress events, then a single `result` or `error` event
+          await readSseStream(res.body, (event, payload) => {
+            if (event === 'progress') setProgress(p => [...p, payload as AnalysisProgress])
+            else if (event === 'result' || event === 'error') data = payload
+          })
+          if (!data) throw new Error('stream ended without a result')
+        } else {
+          data = await res.json() // errors before the analysis starts (and proxies that drop the stream)
+        }
         if (!res.ok || !data.ok) { setApiError(data as ApiError); setLoading('error') }
         else { setReport(data as ReportResult); setLoading('success') }
         return // success — exit loop
       } catch (err) {
-        if (attempt < MAX_RETRIES) {
+        if (!responded && attempt < MAX_RETRIES) {
           await new Promise(r => setTimeout(r, attempt * 1500)) // 1.5s, 3s backoff
           continue
         }
@@ -113,15 +175,63 @@ export default function Home() {
           ? 'A análise demorou demais. Tente com um texto menor.'
           : 'Erro de conexão. Tente novamente.'
         setApiError({ ok: false, error: 'NETWORK_ERROR', message: msg }); setLoading('error')
+        return
+      } finally {
+        clearTimeout(timeout)
+      }
+    }
+  }
+
+  const analyzeAsJob = async (token: string | null) => {
+    try {
+      const res = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ inputType: activeTab, content, turnstileToken: token }),
+      })
+      const created = await res.json()
+      if (!res.ok || !created.ok) { setApiError(created as ApiError); setLoading('error'); return }
+
+      setJobStage('queued')
+      for (let poll = 0; poll < JOB_MAX_POLLS; poll++) {
+        await new Promise(r => setTimeout(r, JOB_POLL_MS))
+        let data: any
+        try {
+          data = await (await fetch(`/api/jobs/${created.jobId}`, { cache: 'no-store' })).json()
+        } catch {
+          continue // transient network error — keep polling
+        }
+        if (!data.ok) { setApiError(data as ApiError); setLoading('error'); return }
+
+        const job = data.job
+        setJobStage(job.status)
+        if (job.status === 'done') { setReport(job.result as ReportResult); setLoading('success'); return }
+        if (job.status === 'failed') {
+          setApiError({ ok: false, error: job.error?.code || 'ANALYZE_FAILED', message: job.error?.message || 'Falha ao analisar. Tente novamente.' })
+          setLoading('error'); return
+        }
       }
+      setApiError({ ok: false, error: 'NETWORK_ERROR', message: 'A análise demorou demais. Tente com um áudio menor.' })
+      setLoading('error')
+    } catch {
+      setApiError({ ok: false, error: 'NETWORK_ERROR', message: 'Erro de conexão. Tente novamente.' }); setLoading('error')
+    } finally {
+      setJobStage(null)
     }
   }
 
+  /* Permalink of the analysis when it was persisted, otherwise the home page */
+  const shareUrl = report?.resultUrl || APP_URL
+
   const copyWhatsApp = () => {
-    const txt = `Oi! Recebi aquela mensagem e resolvi analisar com o Fake News VerificaTon.\nResultado: ${report?.summary?.verdict || 'Inconclusivo'} (risco de fake: ${report?.scores?.fakeProbability || 0}%).\nConfira em: fakenewsverificaton.com.br`
+    const txt = `Oi! Recebi aquela mensagem e resolvi analisar com o Fake News VerificaTon.\nResultado: ${report?.summary?.verdict || 'Inconclusivo'} (risco de fake: ${report?.scores?.fakeProbability || 0}%).\nConfira em: ${shareUrl}`
     navigator.clipboard.writeText(txt); setWhatsCopied(true); setTimeout(() => setWhatsCopied(false), 2000)
   }
-  const copyReport = () => { navigator.clipboard.writeText(report?.reportMarkdown || ''); alert('Relatório copiado!') }
+  const copyReport = () => {
+    const md = report?.reportMarkdown || ''
+    navigator.clipboard.writeText(report?.resultUrl ? `${md}\n🔗 Resultado completo: ${report.resultUrl}\n` : md); alert('Relatório copiado!')
+  }
+  const copyLink = () => { navigator.clipboard.writeText(shareUrl); alert('Link copiado!') }
   const downloadReport = () => {
     const b = new Blob([report?.reportMarkdown || ''], { type: 'text/markdown' })
     const u = URL.createObjectURL(b); const a = document.createElement('a'); a.href = u; a.download = 'relatorio-fakenewsverificaton.md'; a.click(); URL.revokeObjectURL(u)
@@ -224,17 +334,22 @@ export default function Home() {
               className="w-full text-sm py-2 bg-transparent focus:outline-none placeholder-slate-400 dark:text-white"
             />
           )}
-          {(activeTab === 'image' || activeTab === 'audio') && (
+          {activeTab === 'pdf' && (
+            <div className="mb-4 rounded-xl border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 px-3 py-2 text-xs text-blue-700 dark:text-blue-300">
+              📄 O texto do PDF é extraído página a página e os metadados do arquivo (programa que o gerou, datas de criação e edição) são checados. PDFs digitalizados sem texto selecionável devem ser enviados como imagem.
+            </div>
+          )}
+          {UPLOADS[activeTab] && (
             <div className="text-center py-10">
-              <div className="text-4xl mb-3">{activeTab === 'image' ? '🖼️' : '🎙️'}</div>
+              <div className="text-4xl mb-3">{TABS.find(t => t.key === activeTab)?.icon}</div>
               <p className="text-sm text-slate-400 mb-4">
-                {activeTab === 'image' ? 'Envie uma imagem (máx. 4,5 MB)' : 'Envie um áudio (máx. 4,5 MB)'}
+                {UPLOADS[activeTab]!.hint}
               </p>
               <label className="inline-flex items-center gap-2 px-5 py-2.5 bg-brand-50 dark:bg-brand-900/30 text-brand-600 dark:text-brand-300 rounded-xl text-sm font-medium cursor-pointer hover:bg-brand-100 dark:hover:bg-brand-900/50 transition">
                 Escolher arquivo
                 <input
                   type="file"
-                  accept={activeTab === 'image' ? 'image/*' : 'audio/*'}
+                  accept={UPLOADS[activeTab]!.accept}
                   className="hidden"
                   onChange={(e) => {
                     const file = e.target.files?.[0]
@@ -267,20 +382,54 @@ export default function Home() {
           </label>
         </div>
 
+        {/* Anti-bot */}
+        <TurnstileWidget onToken={setTurnstileToken} resetKey={turnstileKey} className="mt-4" />
+
         {/* CTA */}
         <button
           onClick={handleAnalyze}
-          disabled={loading === 'loading' || !content.trim() || !homeConsentChecked}
+          disabled={loading === 'loading' || !content.trim() || !homeConsentChecked || (TURNSTILE_ENABLED && !turnstileToken)}
           className="w-full mt-5 bg-gradient-to-r from-brand-600 to-purple-600 hover:from-brand-700 hover:to-purple-700 text-white py-3.5 rounded-2xl font-semibold text-base shadow-lg shadow-brand-500/25 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2"
         >
           {loading === 'loading' ? (
             <>
               <svg className="spinner w-5 h-5" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"/><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"/></svg>
-              {activeTab === 'audio' ? 'Transcrevendo e analisando...' : 'Analisando...'}
+              {activeTab !== 'audio' ? 'Analisando...'
+                : jobStage === 'analyzing' ? 'Analisando transcrição...'
+                : jobStage === 'extracting' ? 'Transcrevendo áudio...'
+                : 'Na fila...'}
             </>
           ) : 'Analisar'}
         </button>
 
+        {/* Progress */}
+        {loading === 'loading' && activeTab !== 'audio' && (() => {
+          const last = progress[progress.length - 1]
+          const lastIsActive = last?.step === 'extracting' || last?.step === 'model'
+          const spinner = <svg className="spinner w-3.5 h-3.5 mt-px shrink-0" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"/><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"/></svg>
+          return (
+            <ol className="mt-4 space-y-1.5 text-xs text-slate-600 dark:text-slate-300 animate-fade-in" aria-live="polite">
+              <li className="flex items-start gap-2"><span className="text-green-500">✓</span><span>Conteúdo enviado</span></li>
+              {progress.map((p, i) => {
+                const active = lastIsActive && i === progress.length - 1
+                return (
+                  <li key={i} className={`flex items-start gap-2 ${active ? 'text-slate-400 dark:text-slate-500' : ''}`}>
+                    {active ? spinner : <span className="text-green-500">✓</span>}
+                    <span className={p.step === 'summary' ? 'font-medium text-slate-800 dark:text-slate-100' : ''}>{progressLabel(p)}</span>
+                  </li>
+                )
+              })}
+              {!lastIsActive && (
+                <li className="flex items-start gap-2 text-slate-400 dark:text-slate-500">
+                  {spinner}
+                  <span>{last?.step === 'summary' && last.part.done < last.part.total ? 'Analisando as demais partes'
+                    : last?.step === 'summary' || last?.step === 'cached' ? 'Gerando o relatório' : 'Preparando a análise'}</span>
+                </li>
+              )}
+            </ol>
+          )
+        })()}
+
         {/* Error */}
         {loading === 'error' && apiError && (
           <div className="mt-5 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-2xl animate-fade-in">
@@ -289,10 +438,12 @@ export default function Home() {
               <div>
                 <h4 className="text-sm font-medium text-amber-800 dark:text-amber-200">Ops! Algo deu errado</h4>
                 <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">
-                  {apiError.error === 'SERVER_MISCONFIG' ? 'Chave da IA não configurada. Verifique GEMINI_API_KEY no Vercel.' :
+                  {apiError.error === 'SERVER_MISCONFIG' ? `Chave da IA não configurada. ${apiError.message}` :
+                   apiError.error === 'UNSUPPORTED_INPUT' ? apiError.message :
                    apiError.error === 'RATE_LIMITED' ? 'Muitas requisições. Aguarde um minuto.' :
                    apiError.error === 'TOO_LARGE' ? apiError.message :
                    apiError.error === 'CONSENT_MISSING' ? 'Para continuar, aceite os Termos e a Política de Privacidade.' :
+                   apiError.error === 'CAPTCHA_REQUIRED' || apiError.error === 'CAPTCHA_FAILED' ? apiError.message :
                    'Servidor não conseguiu analisar. Tente novamente.'}
                 </p>
               </div>
@@ -308,15 +459,14 @@ export default function Home() {
             {/* Headline */}
             <div className="text-center mb-6">
               <h3 className="text-xl font-bold dark:text-white">{report.summary?.headline || 'Resultado'}</h3>
-              <span className={`inline-block mt-2 px-4 py-1.5 rounded-full text-sm font-semibold ${
-                report.summary?.verdict === 'Provavel fake'
-                  ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
-                  : report.summary?.verdict === 'Provavel verdadeiro'
-                  ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
-                  : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
-              }`}>
+              <span className={`inline-block mt-2 px-4 py-1.5 rounded-full text-sm font-semibold ${verdictBadgeClass(report.summary?.verdict)}`}>
                 {report.summary?.verdict || 'Inconclusivo'}
               </span>
+              {report.meta?.cached && (
+                <p className="text-[11px] text-slate-400 mt-2">
+                  ♻️ Resultado de uma análise anterior do mesmo conteúdo{report.meta?.cachedAt ? ` (${new Date(report.meta.cachedAt).toLocaleString('pt-BR')})` : ''}.
+                </p>
+              )}
             </div>
 
             {/* Score bars */}
@@ -344,17 +494,47 @@ export default function Home() {
               {report.summary?.oneParagraph || report.summary?.headline}
             </p>
 
+            {/* Image regions the claims were read from (OCR) */}
+            {report.meta?.ocr && activeTab === 'image' && content.startsWith('data:image') && report.claims?.some((c: any) => c.region) && (
+              <div className="mb-5">
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Trechos da imagem citados nas afirmações (numerados como no relatório):</p>
+                <ImageRegions ocr={report.meta.ocr} claims={report.claims} imageSrc={content} />
+              </div>
+            )}
+
+            {/* Audio/video transcript: timestamps play the uploaded audio (or open the YouTube video) from there */}
+            {report.meta?.transcript?.length > 0 && (
+              <div className="mb-5">
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Transcrição (trechos citados numerados como no relatório; clique no horário para {report.meta.youtube ? 'abrir o vídeo naquele momento' : 'ouvir'}):</p>
+                <TranscriptView segments={report.meta.transcript} claims={report.claims || []}
+                  audioSrc={activeTab === 'audio' && content.startsWith('data:audio') ? content : undefined}
+                  videoUrl={report.meta.youtube?.url} />
+              </div>
+            )}
+
             {/* Full Markdown Report */}
             {report.reportMarkdown && (
               <div className="mt-6 pt-6 border-t border-slate-200 dark:border-slate-700">
                 <div className="prose prose-sm dark:prose-invert max-w-none prose-headings:text-slate-800 dark:prose-headings:text-white prose-a:text-brand-600 dark:prose-a:text-brand-400 prose-table:text-sm prose-th:bg-slate-100 dark:prose-th:bg-slate-800 prose-th:px-3 prose-th:py-1.5 prose-td:px-3 prose-td:py-1.5">
-                  <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>
+                  <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw, rehypeSanitize]}>
                     {report.reportMarkdown}
                   </ReactMarkdown>
                 </div>
               </div>
             )}
 
+            {/* Permalink */}
+            {report.resultUrl && (
+              <div className="mt-6 flex items-center gap-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-3 py-2">
+                <a href={report.resultUrl} target="_blank" rel="noopener noreferrer" className="flex-1 truncate text-xs text-brand-600 dark:text-brand-400 hover:underline">
+                  {report.resultUrl}
+                </a>
+                <button onClick={copyLink} className="shrink-0 text-xs font-medium text-slate-500 dark:text-slate-300 hover:text-brand-600 transition">
+                  🔗 Copiar link
+                </button>
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex gap-3 mt-6">
               <button onClick={copyReport} className="flex-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 py-2.5 rounded-xl text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-750 transition">
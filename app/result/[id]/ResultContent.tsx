@@ -1,7 +1,13 @@
 'use client'
+import React from 'react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import rehypeRaw from 'rehype-raw'
+import rehypeSanitize from 'rehype-sanitize'
+import { toVerdict, verdictBadgeClass } from '@/lib/verdicts'
+import { claimTypeLabel, formatTimestamp } from '@/lib/claims'
+import ImageRegions from '@/components/ImageRegions'
+import TranscriptView from '@/components/TranscriptView'
 
 interface ResultContentProps {
   analysis: any
@@ -14,14 +20,49 @@ const scoreKeys = [
   { key: 'manipulationRisk', label: 'Risco de manipulação', color: 'bg-orange-500' },
 ]
 
+/**
+ * Render the analyzed text with each claim's evidence span highlighted.
+ * Overlapping spans are skipped (the first claim wins).
+ */
+function HighlightedText({ text, claims }: { text: string; claims: any[] }) {
+  const spans = claims
+    .map((c, i) => ({ ...c.span, i }))
+    .filter(s => typeof s.start === 'number' && typeof s.end === 'number' && s.end > s.start && s.end <= text.length)
+    .sort((a, b) => a.start - b.start)
+
+  const nodes: React.ReactNode[] = []
+  let cursor = 0
+  for (const s of spans) {
+    if (s.start < cursor) continue
+    if (s.start > cursor) nodes.push(text.slice(cursor, s.start))
+    nodes.push(
+      <mark key={s.i} id={`claim-span-${s.i}`} className="bg-amber-200/70 dark:bg-amber-500/30 dark:text-white rounded px-0.5 scroll-mt-24">
+        <sup className="font-semibold text-[10px] mr-0.5">{s.i + 1}</sup>
+        {text.slice(s.start, s.end)}
+      </mark>
+    )
+    cursor = s.end
+  }
+  if (cursor < text.length) nodes.push(text.slice(cursor))
+
+  return <p className="whitespace-pre-wrap text-xs leading-relaxed text-slate-600 dark:text-slate-300">{nodes}</p>
+}
+
 export default function ResultContent({ analysis }: ResultContentProps) {
   const scores = analysis.scores || {}
+  const claims: any[] = analysis.claims || []
+  const hasSpans = !!analysis.analyzed_text && claims.some(c => c.span)
+  const ocr = analysis.result?.meta?.ocr
+  const hasRegions = !!ocr && claims.some(c => c.region)
+  const transcript = analysis.result?.meta?.transcript
+  const videoUrl: string | undefined = analysis.result?.meta?.youtube?.url
 
   return (
     <div className="max-w-3xl mx-auto px-6 py-8">
-      <h1 className="text-xl font-semibold mb-1 dark:text-white">
-        {analysis.verdict || 'Resultado'}
-      </h1>
+      <h1 className="text-xl font-semibold mb-2 dark:text-white">Resultado da análise</h1>
+      <span className={`inline-block mb-2 px-4 py-1.5 rounded-full text-sm font-semibold ${verdictBadgeClass(analysis.verdict)}`}>
+        {toVerdict(analysis.verdict)}
+      </span>
       <p className="text-xs text-slate-400 dark:text-slate-500 mb-6">
         {analysis.input_type} — {new Date(analysis.created_at).toLocaleString('pt-BR')}
       </p>
@@ -46,15 +87,70 @@ export default function ResultContent({ analysis }: ResultContentProps) {
         </div>
       </div>
 
+      {/* Image regions of each claim (OCR layout — the image itself is not stored) */}
+      {hasRegions && (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200/60 dark:border-slate-700/60 p-6 mb-6">
+          <h2 className="text-sm font-semibold mb-1 dark:text-white">Onde cada afirmação aparece na imagem</h2>
+          <p className="text-[11px] text-slate-400 dark:text-slate-500 mb-3">A imagem enviada não é armazenada; o esquema mostra o texto reconhecido por OCR na posição original.</p>
+          <ImageRegions ocr={ocr} claims={claims} />
+        </div>
+      )}
+
+      {/* Audio/video transcript with the timestamps of each claim (the audio itself is not stored) */}
+      {transcript?.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200/60 dark:border-slate-700/60 p-6 mb-6">
+          <h2 className="text-sm font-semibold mb-3 dark:text-white">{videoUrl ? 'Transcrição do vídeo' : 'Transcrição do áudio'}</h2>
+          <TranscriptView segments={transcript} claims={claims} videoUrl={videoUrl} />
+        </div>
+      )}
+
+      {/* Original text with evidence highlights */}
+      {hasSpans && !transcript && (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200/60 dark:border-slate-700/60 p-6 mb-6">
+          <h2 className="text-sm font-semibold mb-3 dark:text-white">Texto analisado</h2>
+          <HighlightedText text={analysis.analyzed_text} claims={claims} />
+        </div>
+      )}
+
       {/* Claims */}
-      {analysis.claims && analysis.claims.length > 0 && (
+      {claims.length > 0 && (
         <div className="mb-6">
           <h2 className="text-sm font-semibold mb-3 dark:text-white">Afirmações analisadas</h2>
           <div className="space-y-2">
-            {analysis.claims.map((c: any, i: number) => (
-              <div key={i} className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-4 text-xs">
-                <p className="font-medium dark:text-white">{c.claim}</p>
+            {claims.map((c: any, i: number) => (
+              <div key={i} id={`claim-${i}`} className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-4 text-xs scroll-mt-24">
+                <div className="flex items-start justify-between gap-3">
+                  <p className="font-medium dark:text-white">
+                    <span className="text-slate-400 dark:text-slate-500 mr-1">{i + 1}.</span>{c.claim}
+                  </p>
+                  {c.verdict && (
+                    <span className={`shrink-0 px-2 py-0.5 rounded-lg text-[10px] font-semibold ${verdictBadgeClass(c.verdict)}`}>
+                      {toVerdict(c.verdict)}
+                    </span>
+                  )}
+                </div>
                 <p className="text-slate-500 dark:text-slate-400 mt-1">{c.assessment}</p>
+                <div className="flex gap-3 mt-2 text-[10px] text-slate-400 dark:text-slate-500">
+                  {c.type && <span>{claimTypeLabel(c.type)}</span>}
+                  {typeof c.confidence === 'number' && <span>Confiança: {c.confidence}%</span>}
+                  {c.time && transcript ? (
+                    <a href={`#transcript-${c.segmentIndex}`} className="text-brand-600 dark:text-brand-400 hover:underline">
+                      ⏱ {formatTimestamp(c.time.start)}–{formatTimestamp(c.time.end)}
+                    </a>
+                  ) : c.segmentIndex && <span>Segmento {c.segmentIndex}</span>}
+                  {c.time && videoUrl && (
+                    <a href={`${videoUrl}?t=${Math.floor(c.time.start)}`} target="_blank" rel="noopener noreferrer" className="text-brand-600 dark:text-brand-400 hover:underline">
+                      ▶ Assistir no YouTube
+                    </a>
+                  )}
+                  {c.page && <span>Página {c.page}</span>}
+                  {c.region && hasRegions && (
+                    <a href={`#claim-region-${i}`} className="text-brand-600 dark:text-brand-400 hover:underline">Ver na imagem</a>
+                  )}
+                  {c.span && hasSpans && !transcript && (
+                    <a href={`#claim-span-${i}`} className="text-brand-600 dark:text-brand-400 hover:underline">Ver no texto</a>
+                  )}
+                </div>
               </div>
             ))}
           </div>
@@ -66,7 +162,7 @@ export default function ResultContent({ analysis }: ResultContentProps) {
         <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-lg border border-slate-200/60 dark:border-slate-700/60 p-6">
           <h2 className="text-sm font-semibold mb-4 dark:text-white">Relatório completo</h2>
           <div className="prose prose-sm dark:prose-invert max-w-none prose-headings:text-slate-800 dark:prose-headings:text-white prose-a:text-brand-600 dark:prose-a:text-brand-400 prose-table:text-sm prose-th:bg-slate-100 dark:prose-th:bg-slate-800 prose-th:px-3 prose-th:py-1.5 prose-td:px-3 prose-td:py-1.5">
-            <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>
+            <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw, rehypeSanitize]}>
               {analysis.report_markdown}
             </ReactMarkdown>
           </div>
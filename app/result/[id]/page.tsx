@@ -1,6 +1,9 @@
-import React from 'react'
+import React, { cache } from 'react'
+import type { Metadata } from 'next'
 import { createServerSupabase } from '../../../lib/supabaseServer'
 import { notFound } from 'next/navigation'
+import { toVerdict } from '@/lib/verdicts'
+import { getResultUrl } from '@/lib/urls'
 import Nav from '@/components/Nav'
 import Footer from '@/components/Footer'
 import ResultContent from './ResultContent'
@@ -9,15 +12,51 @@ export const dynamic = 'force-dynamic'
 
 type Props = { params: { id: string } }
 
-export default async function ResultPage({ params }: Props) {
-  const id = params.id
+/** One Supabase query per request, shared by generateMetadata and the page */
+const getAnalysis = cache(async (id: string) => {
   const supabase = createServerSupabase()
-
-  const { data: analysis } = await supabase
+  const { data } = await supabase
     .from('analyses')
     .select('*')
     .eq('id', id)
     .maybeSingle()
+  return data
+})
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const analysis = await getAnalysis(params.id)
+  if (!analysis) return { title: 'Resultado não encontrado — Fake News VerificaTon' }
+
+  const verdict = toVerdict(analysis.verdict)
+  const headline: string = analysis.result?.summary?.headline || 'Resultado da análise'
+  const title = `${verdict}: ${headline} — Fake News VerificaTon`
+  const description = (analysis.result?.summary?.oneParagraph || `Veredito: ${verdict}. Risco de fake: ${analysis.scores?.fakeProbability ?? 0}%.`).slice(0, 200)
+  const image = `/api/og?id=${encodeURIComponent(analysis.id)}`
+
+  return {
+    title,
+    description,
+    alternates: { canonical: getResultUrl(analysis.id) },
+    openGraph: {
+      title,
+      description,
+      type: 'article',
+      locale: 'pt_BR',
+      siteName: 'Fake News VerificaTon',
+      url: getResultUrl(analysis.id),
+      images: [{ url: image, width: 1200, height: 630, alt: `${verdict} — ${headline}`, type: 'image/png' }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [image],
+    },
+  }
+}
+
+export default async function ResultPage({ params }: Props) {
+  const analysis = await getAnalysis(params.id)
 
   if (!analysis) return notFound()
 
@@ -2,6 +2,7 @@
 import { useState } from 'react'
 import Nav from '@/components/Nav'
 import Footer from '@/components/Footer'
+import TurnstileWidget, { TURNSTILE_ENABLED } from '@/components/TurnstileWidget'
 
 type ViewMode = 'subscribe' | 'unsubscribe'
 type Status = 'idle' | 'loading' | 'success' | 'error'
@@ -22,6 +23,8 @@ export default function SubscribePage() {
   const [status, setStatus] = useState<Status>('idle')
   const [errorMsg, setErrorMsg] = useState('')
   const [successMsg, setSuccessMsg] = useState('')
+  const [turnstileToken, setTurnstileToken] = useState<string | null>(null)
+  const [turnstileKey, setTurnstileKey] = useState(0)
 
   const resetState = () => {
     setStatus('idle')
@@ -29,11 +32,19 @@ export default function SubscribePage() {
     setSuccessMsg('')
   }
 
+  /* Turnstile tokens are single-use: take the current one and request a fresh challenge */
+  const consumeTurnstileToken = () => {
+    const token = turnstileToken
+    setTurnstileToken(null); setTurnstileKey(k => k + 1)
+    return token
+  }
+
   /* ── Inscrição ── */
   const handleSubscribe = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!email.trim()) { setErrorMsg('E-mail é obrigatório.'); setStatus('error'); return }
     if (!acceptedTerms) { setErrorMsg('Você precisa aceitar os Termos e Política de Privacidade.'); setStatus('error'); return }
+    if (TURNSTILE_ENABLED && !turnstileToken) { setErrorMsg('Confirme que você não é um robô antes de continuar.'); setStatus('error'); return }
     setStatus('loading'); setErrorMsg('')
     try {
       const res = await fetch('/api/subscribe', {
@@ -44,6 +55,7 @@ export default function SubscribePage() {
           email: email.trim(),
           whatsapp: whatsapp.trim() || null,
           acceptedTerms: true,
+          turnstileToken: consumeTurnstileToken(),
         }),
       })
       const data = await res.json()
@@ -64,6 +76,7 @@ export default function SubscribePage() {
   const handleUnsubscribe = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!unsubEmail.trim()) { setErrorMsg('Informe o e-mail cadastrado.'); setStatus('error'); return }
+    if (TURNSTILE_ENABLED && !turnstileToken) { setErrorMsg('Confirme que você não é um robô antes de continuar.'); setStatus('error'); return }
     setStatus('loading'); setErrorMsg('')
     try {
       const res = await fetch('/api/subscribe/cancel', {
@@ -71,6 +84,7 @@ export default function SubscribePage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           email: unsubEmail.trim(),
+          turnstileToken: consumeTurnstileToken(),
         }),
       })
       const data = await res.json()
@@ -188,7 +202,9 @@ export default function SubscribePage() {
                 </div>
               )}
 
-              <button type="submit" disabled={status === 'loading' || !acceptedTerms}
+              <TurnstileWidget onToken={setTurnstileToken} resetKey={turnstileKey} />
+
+              <button type="submit" disabled={status === 'loading' || !acceptedTerms || (TURNSTILE_ENABLED && !turnstileToken)}
                 className="w-full bg-gradient-to-r from-brand-600 to-purple-600 hover:from-brand-700 hover:to-purple-700 text-white py-3.5 rounded-2xl font-semibold text-base shadow-lg shadow-brand-500/25 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2">
                 {status === 'loading' ? (
                   <><svg className="spinner w-5 h-5" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"/><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"/></svg>Cadastrando...</>
@@ -228,7 +244,9 @@ export default function SubscribePage() {
                 </div>
               )}
 
-              <button type="submit" disabled={status === 'loading'}
+              <TurnstileWidget onToken={setTurnstileToken} resetKey={turnstileKey} />
+
+              <button type="submit" disabled={status === 'loading' || (TURNSTILE_ENABLED && !turnstileToken)}
                 className="w-full bg-slate-600 hover:bg-slate-700 text-white py-3.5 rounded-2xl font-semibold text-base shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center justify-center gap-2">
                 {status === 'loading' ? (
                   <><svg className="spinner w-5 h-5" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"/><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z"/></svg>Processando...</>
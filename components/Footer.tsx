@@ -9,6 +9,8 @@ export default function Footer() {
             <a href="/alerts" className="hover:text-brand-500 transition">Alertas</a>
             <a href="/subscribe" className="hover:text-brand-500 transition">Inscrever-se</a>
             <a href="/methodology" className="hover:text-brand-500 transition">Metodologia</a>
+            <a href="/dashboard" className="hover:text-brand-500 transition">API</a>
+            <a href="/batch" className="hover:text-brand-500 transition">Lote</a>
             <a href="/privacy" className="hover:text-brand-500 transition">Privacidade</a>
             <a href="/terms" className="hover:text-brand-500 transition">Termos</a>
           </div>
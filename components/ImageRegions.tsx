@@ -0,0 +1,52 @@
+'use client'
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface ImageRegionsProps {
+  ocr: { width: number; height: number; lines: { text: string; box: Box }[] }
+  claims: { region?: Box | null }[]
+  /** Original image (only available right after the upload — images are not stored) */
+  imageSrc?: string
+}
+
+/**
+ * Image (or, without it, the OCR text laid out where it was read) with the
+ * region of each claim outlined and numbered like the claims list.
+ */
+export default function ImageRegions({ ocr, claims, imageSrc }: ImageRegionsProps) {
+  const { width: W, height: H } = ocr
+  const badge = Math.max(W, H) * 0.025
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} role="img" aria-label="Regiões da imagem citadas nas afirmações"
+      className="w-full max-h-[70vh] rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900">
+      {imageSrc ? (
+        <image href={imageSrc} x={0} y={0} width={W} height={H} />
+      ) : (
+        ocr.lines.map((l, i) => (
+          <text key={i} x={l.box.x * W} y={(l.box.y + l.box.height * 0.8) * H}
+            fontSize={l.box.height * H * 0.8} textLength={l.box.width * W} lengthAdjust="spacingAndGlyphs"
+            className="fill-slate-400 dark:fill-slate-500">
+            {l.text}
+          </text>
+        ))
+      )}
+      {claims.map((c, i) => c.region && (
+        <a key={i} href={`#claim-${i}`} id={`claim-region-${i}`}>
+          <rect x={c.region.x * W} y={c.region.y * H} width={c.region.width * W} height={c.region.height * H}
+            rx={badge / 4} className="fill-amber-300/20 stroke-amber-500" strokeWidth={badge / 6} />
+          <circle cx={c.region.x * W} cy={c.region.y * H} r={badge / 2} className="fill-amber-500" />
+          <text x={c.region.x * W} y={c.region.y * H} fontSize={badge * 0.6} textAnchor="middle" dominantBaseline="central"
+            className="fill-white font-semibold">
+            {i + 1}
+          </text>
+        </a>
+      ))}
+    </svg>
+  )
+}
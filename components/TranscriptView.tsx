@@ -0,0 +1,67 @@
+'use client'
+import { useRef, useState } from 'react'
+import { formatTimestamp, type TimeRange, type TranscriptSegment } from '@/lib/claims'
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[]
+  claims: { time?: TimeRange | null }[]
+  /** Original audio (only available right after the upload — audio is not stored) */
+  audioSrc?: string
+  /** YouTube short link: timestamps open the video at that moment */
+  videoUrl?: string
+}
+
+/**
+ * Audio or video transcript with one row per segment. Segments where a claim
+ * was spoken are highlighted and numbered like the claims list; with the
+ * audio at hand, clicking a timestamp plays from there, for YouTube videos it
+ * opens the video at that moment, otherwise it is a link to the segment.
+ */
+export default function TranscriptView({ segments, claims, audioSrc, videoUrl }: TranscriptViewProps) {
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [playhead, setPlayhead] = useState<number | null>(null)
+
+  const seek = (seconds: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.currentTime = seconds
+    audio.play().catch(() => {})
+  }
+
+  return (
+    <div>
+      {audioSrc && (
+        <audio ref={audioRef} src={audioSrc} controls className="w-full mb-3"
+          onTimeUpdate={(e) => setPlayhead(e.currentTarget.currentTime)} />
+      )}
+      <ol className="space-y-0.5 max-h-96 overflow-y-auto text-xs">
+        {segments.map(seg => {
+          const cited = claims
+            .map((c, i) => (c.time && seg.start >= c.time.start && seg.end <= c.time.end ? i : -1))
+            .filter(i => i >= 0)
+          const playing = playhead !== null && playhead >= seg.start && playhead < seg.end
+          return (
+            <li key={seg.index} id={`transcript-${seg.index}`}
+              className={`flex gap-3 rounded-lg px-2 py-1 scroll-mt-24 ${playing ? 'bg-brand-50 dark:bg-brand-900/30' : cited.length > 0 ? 'bg-amber-200/40 dark:bg-amber-500/15' : ''}`}>
+              <a href={videoUrl ? `${videoUrl}?t=${Math.floor(seg.start)}` : `#transcript-${seg.index}`}
+                {...(videoUrl && !audioSrc ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+                onClick={audioSrc ? (e) => { e.preventDefault(); seek(seg.start) } : undefined}
+                className="shrink-0 w-12 font-mono text-brand-600 dark:text-brand-400 hover:underline">
+                {formatTimestamp(seg.start)}
+              </a>
+              <span className={`flex-1 ${seg.instrumental ? 'italic text-slate-400 dark:text-slate-500' : 'text-slate-600 dark:text-slate-300'}`}>
+                {seg.text}
+              </span>
+              {cited.map(i => (
+                <a key={i} href={`#claim-${i}`}
+                  className="shrink-0 self-start px-1.5 rounded-full bg-amber-500 text-white text-[10px] font-semibold">
+                  {i + 1}
+                </a>
+              ))}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+'use client'
+import Turnstile from 'react-turnstile'
+import { useDarkMode } from './DarkModeProvider'
+
+const SITE_KEY = process.env.NEXT_PUBLIC_TURNSTILE_SITE_KEY || ''
+
+/** Whether the anti-bot challenge is configured (forms must wait for a token) */
+export const TURNSTILE_ENABLED = Boolean(SITE_KEY)
+
+/**
+ * Cloudflare Turnstile challenge. Tokens are single-use: bump `resetKey`
+ * after each submission to remount the widget and get a fresh one.
+ */
+export default function TurnstileWidget({ onToken, resetKey = 0, className = '' }: {
+  onToken: (token: string | null) => void
+  resetKey?: number
+  className?: string
+}) {
+  const { dark } = useDarkMode()
+  if (!TURNSTILE_ENABLED) return null
+
+  return (
+    <div className={`flex justify-center ${className}`}>
+      <Turnstile
+        key={resetKey}
+        sitekey={SITE_KEY}
+        theme={dark ? 'dark' : 'light'}
+        language="pt-br"
+        refreshExpired="auto"
+        onVerify={(token) => onToken(token)}
+        onExpire={() => onToken(null)}
+        onError={() => onToken(null)}
+      />
+    </div>
+  )
+}
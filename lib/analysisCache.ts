@@ -0,0 +1,194 @@
+import 'server-only'
+import { createServerSupabase } from './supabaseServer'
+import { envInt } from './env'
+import { hammingDistance, SIMHASH_MAX_DISTANCE, SIMHASH_MIN_TOKENS, type SimilarityKeys } from './fingerprint'
+
+/**
+ * Analysis result cache keyed by content fingerprint.
+ *
+ * Lookup order:
+ *   1. Fast layer — Upstash Redis if configured, otherwise in-memory (per instance)
+ *   2. Supabase — most recent non-fallback row in `analyses` with the same fingerprint
+ *
+ * Entries expire after ANALYSIS_CACHE_TTL_SECONDS (default 24h, 0 disables the cache).
+ */
+
+const UPSTASH_URL = process.env.UPSTASH_REDIS_REST_URL || ''
+const UPSTASH_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN || ''
+
+const TTL_SECONDS = envInt('ANALYSIS_CACHE_TTL_SECONDS', 86_400, 0)
+const MEMORY_MAX_ENTRIES = 500
+const KEY_PREFIX = 'fnv:analysis:'
+
+export interface CachedAnalysis {
+  /** analyses.id of the cached row, when known */
+  id?: string
+  result: any
+  cachedAt: string
+  /** Set when the entry is a near-duplicate (SimHash) rather than an exact match */
+  distance?: number
+}
+
+let redisClient: { get: (key: string) => Promise<unknown>; set: (key: string, value: string, opts: { ex: number }) => Promise<unknown> } | null = null
+
+async function getRedis() {
+  if (redisClient) return redisClient
+  if (!UPSTASH_URL || !UPSTASH_TOKEN) return null
+
+  const { Redis } = await import('@upstash/redis')
+  redisClient = new Redis({ url: UPSTASH_URL, token: UPSTASH_TOKEN })
+  return redisClient
+}
+
+// ── In-memory fallback (Map keeps insertion order → oldest evicted first) ──
+const memory = new Map<string, { entry: CachedAnalysis; expiresAt: number }>()
+
+function memoryGet(fingerprint: string): CachedAnalysis | null {
+  const hit = memory.get(fingerprint)
+  if (!hit) return null
+  if (Date.now() > hit.expiresAt) {
+    memory.delete(fingerprint)
+    return null
+  }
+  return hit.entry
+}
+
+function memorySet(fingerprint: string, entry: CachedAnalysis, ttlSeconds: number) {
+  memory.delete(fingerprint)
+  memory.set(fingerprint, { entry, expiresAt: Date.now() + ttlSeconds * 1000 })
+  while (memory.size > MEMORY_MAX_ENTRIES) {
+    const oldest = memory.keys().next().value
+    if (oldest === undefined) break
+    memory.delete(oldest)
+  }
+}
+
+export function isAnalysisCacheEnabled(): boolean {
+  return TTL_SECONDS > 0
+}
+
+/** Seconds left before an entry analyzed at `cachedAt` expires (≤ 0 when already expired) */
+function remainingTtlSeconds(cachedAt: string): number {
+  const analyzedAt = Date.parse(cachedAt)
+  if (Number.isNaN(analyzedAt)) return TTL_SECONDS
+  return Math.min(TTL_SECONDS, Math.floor(TTL_SECONDS - (Date.now() - analyzedAt) / 1000))
+}
+
+async function fastGet(fingerprint: string): Promise<CachedAnalysis | null> {
+  const redis = await getRedis()
+  if (!redis) return memoryGet(fingerprint)
+
+  const raw = await redis.get(KEY_PREFIX + fingerprint)
+  if (!raw) return null
+  // @upstash/redis deserializes JSON automatically
+  return (typeof raw === 'string' ? JSON.parse(raw) : raw) as CachedAnalysis
+}
+
+/** Entries expire TTL_SECONDS after the analysis, not after being copied to the fast layer */
+async function fastSet(fingerprint: string, entry: CachedAnalysis) {
+  const ttlSeconds = remainingTtlSeconds(entry.cachedAt)
+  if (ttlSeconds <= 0) return
+  const redis = await getRedis()
+  if (!redis) return memorySet(fingerprint, entry, ttlSeconds)
+  await redis.set(KEY_PREFIX + fingerprint, JSON.stringify(entry), { ex: ttlSeconds })
+}
+
+/**
+ * Most recent analysis for an identical fingerprint within the TTL, or null.
+ * Errors are logged and treated as a miss.
+ */
+export async function getCachedAnalysis(fingerprint: string): Promise<CachedAnalysis | null> {
+  if (!isAnalysisCacheEnabled() || !fingerprint) return null
+
+  try {
+    const fast = await fastGet(fingerprint)
+    if (fast) return fast
+  } catch (err) {
+    console.warn('[analysisCache] fast layer read failed:', err)
+  }
+
+  try {
+    const supabase = createServerSupabase()
+    const since = new Date(Date.now() - TTL_SECONDS * 1000).toISOString()
+    const { data } = await supabase
+      .from('analyses')
+      .select('id, created_at, result')
+      .eq('fingerprint', fingerprint)
+      .gte('created_at', since)
+      .neq('analysis_mode', 'parse_fallback')
+      .not('result', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!data?.result) return null
+
+    const entry: CachedAnalysis = { id: data.id, result: data.result, cachedAt: data.created_at }
+    await fastSet(fingerprint, entry).catch(() => { /* best-effort */ })
+    return entry
+  } catch (err) {
+    console.warn('[analysisCache] Supabase lookup failed:', err)
+    return null
+  }
+}
+
+/**
+ * Store a fresh analysis in the fast layer. The Supabase row is written by
+ * the caller as part of the normal `analyses` insert.
+ */
+export async function setCachedAnalysis(fingerprint: string, entry: CachedAnalysis): Promise<void> {
+  if (!isAnalysisCacheEnabled() || !fingerprint) return
+  if (entry.result?.meta?.mode === 'parse_fallback') return
+
+  try {
+    await fastSet(fingerprint, entry)
+  } catch (err) {
+    console.warn('[analysisCache] fast layer write failed:', err)
+  }
+}
+
+/**
+ * PostgREST `or` filter matching candidate rows of a near-duplicate:
+ * same normalized fingerprint, or (for long enough texts) a shared SimHash band.
+ */
+export function nearDuplicateFilter(keys: SimilarityKeys): string {
+  const exact = `normalized_fingerprint.eq.${keys.normalizedFingerprint}`
+  if (keys.tokens < SIMHASH_MIN_TOKENS) return exact
+  return `${exact},simhash_bands.ov.{${keys.simhashBands.join(',')}}`
+}
+
+/**
+ * Most recent analysis of a near-duplicate text (same normalized fingerprint
+ * or SimHash within SIMHASH_MAX_DISTANCE bits) within the TTL, or null.
+ * Only Supabase is consulted: the fast layer is keyed by exact fingerprint.
+ */
+export async function getNearDuplicateAnalysis(keys: SimilarityKeys): Promise<CachedAnalysis | null> {
+  if (!isAnalysisCacheEnabled() || keys.tokens === 0) return null
+
+  try {
+    const supabase = createServerSupabase()
+    const since = new Date(Date.now() - TTL_SECONDS * 1000).toISOString()
+    const { data: rows } = await supabase
+      .from('analyses')
+      .select('id, created_at, result, normalized_fingerprint, simhash')
+      .or(nearDuplicateFilter(keys))
+      .gte('created_at', since)
+      .neq('analysis_mode', 'parse_fallback')
+      .not('result', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(50)
+
+    for (const row of rows || []) {
+      const distance = row.normalized_fingerprint === keys.normalizedFingerprint
+        ? 0
+        : row.simhash && keys.tokens >= SIMHASH_MIN_TOKENS ? hammingDistance(row.simhash, keys.simhash) : Infinity
+      if (distance <= SIMHASH_MAX_DISTANCE) {
+        return { id: row.id, result: row.result, cachedAt: row.created_at, distance }
+      }
+    }
+    return null
+  } catch (err) {
+    console.warn('[analysisCache] near-duplicate lookup failed:', err)
+    return null
+  }
+}
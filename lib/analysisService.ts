@@ -0,0 +1,468 @@
+import 'server-only'
+import { isLLMConfigured, getLLMConfigHint, getLLMProviderName, LLMCapabilityError } from './services/llm'
+import { analyzePipeline } from './analyzePipeline'
+import { createServerSupabase } from './supabaseServer'
+import { getSessionUser } from './supabaseAuth'
+import { getCachedAnalysis, getNearDuplicateAnalysis, nearDuplicateFilter, setCachedAnalysis } from './analysisCache'
+import { getResultUrl } from './urls'
+import { computeFingerprint, computeSimilarityKeys, hammingDistance, simhashBands, SIMHASH_MAX_DISTANCE, SIMHASH_MIN_TOKENS, type SimilarityKeys } from './fingerprint'
+import { checkRateLimitAsync, rateLimitHeaders } from './rateLimitUpstash'
+import { getRequestApiKey, verifyHuman } from './turnstile'
+import { authenticateApiKey, checkApiKeyQuota, isUserApiKey, recordApiKeyUsage, type ApiKeyRecord } from './apiKeys'
+import { isFlaggedVerdict, toVerdict } from './verdicts'
+import { sanitizeForLLM, isValidUrl } from './validations'
+import type { AnalysisProgress, ApiErrorCode } from './validations/responses'
+import { extractFromUrl, isYouTubeUrl } from './services/extractor'
+import { extractAudioTranscript } from './services/extractor.audio'
+import type { YouTubeVideoInfo } from './services/extractor.youtube'
+import { extractPdfFromDataUrl, type PdfDocumentInfo } from './services/extractor.pdf'
+import type { SocialPost } from './services/extractor.social'
+import { extractImageText, isOcrEnabled, type ImageOcr } from './services/extractor.ocr'
+import { analyzeImageForensics, type ImageForensics } from './imageForensics'
+import { srtTimeToSeconds, type TranscriptSegment } from './claims'
+import { MAX_ANALYZED_CHARS } from './chunking'
+
+/**
+ * Analysis flow shared by /api/check (synchronous) and /api/jobs (background):
+ * caller authorization, content extraction, result cache, analyzePipeline,
+ * persistence and trending aggregation.
+ */
+
+export interface ServiceFailure {
+  ok: false
+  status: number
+  error: ApiErrorCode
+  message: string
+  headers?: Record<string, string>
+}
+
+export interface Caller {
+  ip: string
+  /** Per-user API key, when the request was authenticated with one */
+  apiKey: ApiKeyRecord | null
+  /** X-RateLimit-* of the per-IP limit (empty for API keys until chargeCaller) */
+  limitHeaders: Record<string, string>
+}
+
+export type AnalysisStage = 'extracting' | 'analyzing'
+
+export interface AnalysisInput {
+  inputType: string
+  content: string
+  force?: boolean
+}
+
+export interface RunAnalysisOptions {
+  /** Called when the flow enters a new stage (used for job progress) */
+  onStage?: (stage: AnalysisStage) => void | Promise<void>
+  /** Finer-grained progress (streamed to the browser by /api/check) */
+  onProgress?: (event: AnalysisProgress) => void
+}
+
+function fail(status: number, error: ApiErrorCode, message: string, headers?: Record<string, string>): ServiceFailure {
+  return { ok: false, status, error, message, ...(headers ? { headers } : {}) }
+}
+
+/**
+ * Identify the caller: a valid API key (Authorization: Bearer fnv_live_…),
+ * or an anonymous caller, who consumes one request from the per-IP rate
+ * limit. API keys are charged later, with chargeCaller, once the request
+ * has been validated.
+ */
+export async function authorizeCaller(req: Request): Promise<({ ok: true } & Caller) | ServiceFailure> {
+  const forwarded = req.headers.get('x-forwarded-for')
+  const ip = forwarded?.split(',')[0]?.trim() || 'unknown'
+
+  const providedKey = getRequestApiKey(req)
+  const apiKey = providedKey && isUserApiKey(providedKey) ? await authenticateApiKey(providedKey) : null
+  if (providedKey && isUserApiKey(providedKey) && !apiKey) {
+    return fail(401, 'INVALID_API_KEY', 'Chave de API inválida ou revogada.')
+  }
+  if (apiKey) return { ok: true, ip, apiKey, limitHeaders: {} }
+
+  const rl = await checkRateLimitAsync(ip)
+  const limitHeaders = rateLimitHeaders(rl)
+  if (!rl.allowed) {
+    return fail(429, 'RATE_LIMITED', 'Muitas requisições. Aguarde um minuto.', { ...limitHeaders, 'Retry-After': '60' })
+  }
+  return { ok: true, ip, apiKey: null, limitHeaders }
+}
+
+/**
+ * Consume `cost` requests (one per analysis; batches charge one per unique
+ * item) from the caller's API key quota and bump its usage counter. Called
+ * after validation and the other checks, right before the work starts, so
+ * rejected requests are not charged. Anonymous callers were already counted
+ * by authorizeCaller. Returns the X-RateLimit-* headers to send.
+ */
+export async function chargeCaller(caller: Caller, { cost = 1 }: { cost?: number } = {}): Promise<{ ok: true; limitHeaders: Record<string, string> } | ServiceFailure> {
+  if (!caller.apiKey) return { ok: true, limitHeaders: caller.limitHeaders }
+
+  const quota = await checkApiKeyQuota(caller.apiKey, cost)
+  const limitHeaders = rateLimitHeaders(quota.rate)
+  if (!quota.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((quota.rate.reset - Date.now()) / 1000))
+    const window = quota.exceeded === 'day' ? 'diária' : 'mensal'
+    return fail(429, 'QUOTA_EXCEEDED', `Cota ${window} da chave de API esgotada (${quota.rate.limit} requisições).`, { ...limitHeaders, 'Retry-After': String(retryAfter) })
+  }
+  await recordApiKeyUsage(caller.apiKey.id, cost)
+  return { ok: true, limitHeaders }
+}
+
+/**
+ * Per-request checks after body validation: Turnstile (unless an API key was
+ * used) and login for forced re-analysis. Returns null when the request may proceed.
+ */
+export async function verifyCaller(req: Request, caller: Caller, opts: { turnstileToken?: string; force?: boolean }): Promise<ServiceFailure | null> {
+  if (!caller.apiKey) {
+    const human = await verifyHuman(req, opts.turnstileToken, caller.ip)
+    if (!human.ok) return fail(human.status || 403, human.error || 'CAPTCHA_FAILED', human.message || 'Verificação anti-bot falhou.')
+  }
+
+  // Forced re-analysis (bypasses the result cache) is for logged-in users only
+  if (opts.force) {
+    const user = await getSessionUser()
+    if (!user) return fail(401, 'AUTH_REQUIRED', 'Reanálise forçada disponível apenas para usuários logados.')
+  }
+
+  return null
+}
+
+/** SERVER_MISCONFIG failure when no LLM provider is configured, otherwise null */
+export function checkLLMConfig(): ServiceFailure | null {
+  if (isLLMConfigured()) return null
+  const hint = getLLMConfigHint()
+  console.error(`[analysisService] LLM provider not configured (${hint})`)
+  return fail(503, 'SERVER_MISCONFIG', `${hint} não configurada no servidor (Vercel).`)
+}
+
+/**
+ * Trending item for the same message: exact fingerprint first, then a
+ * near-duplicate variant (normalized fingerprint or close SimHash).
+ */
+async function findTrendingItem(supabase: ReturnType<typeof createServerSupabase>, fp: string, keys: SimilarityKeys) {
+  const { data: exact } = await supabase
+    .from('trending_items')
+    .select('id, occurrences')
+    .eq('fingerprint', fp)
+    .limit(1)
+    .maybeSingle()
+  if (exact) return exact
+
+  const { data: candidates } = await supabase
+    .from('trending_items')
+    .select('id, occurrences, normalized_fingerprint, simhash')
+    .or(nearDuplicateFilter(keys))
+    .order('last_seen', { ascending: false })
+    .limit(50)
+
+  return (candidates || []).find((c: any) =>
+    c.normalized_fingerprint === keys.normalizedFingerprint ||
+    (keys.tokens >= SIMHASH_MIN_TOKENS && c.simhash && hammingDistance(c.simhash, keys.simhash) <= SIMHASH_MAX_DISTANCE),
+  ) || null
+}
+
+/**
+ * Update trending aggregation (best-effort, real verdicts only).
+ * Variants of the same hoax are grouped into one item.
+ * Also called on cache hits so resubmissions still count as occurrences.
+ */
+async function updateTrending(result: any, keys: SimilarityKeys) {
+  try {
+    const supabase = createServerSupabase()
+    const fp = result.meta?.fingerprint
+    if (fp && result.summary?.headline && result.meta?.mode !== 'parse_fallback') {
+      const existing = await findTrendingItem(supabase, fp, keys)
+
+      if (existing) {
+        await supabase.from('trending_items').update({
+          occurrences: (existing.occurrences || 1) + 1,
+          last_seen: new Date().toISOString(),
+          score_fake_probability: result.scores?.fakeProbability || 0,
+        }).eq('id', existing.id)
+      } else {
+        await supabase.from('trending_items').insert({
+          title: result.summary.headline,
+          reason: result.summary.oneParagraph?.slice(0, 300) || '',
+          fingerprint: fp,
+          normalized_fingerprint: keys.normalizedFingerprint,
+          simhash: keys.simhash,
+          simhash_bands: keys.simhashBands,
+          sample_claims: (result.claims || []).slice(0, 3),
+          score_fake_probability: result.scores?.fakeProbability || 0,
+          occurrences: 1,
+          last_seen: new Date().toISOString(),
+        })
+      }
+    }
+  } catch (trendErr) {
+    console.error('[analysisService] trending update failed (non-blocking):', trendErr)
+  }
+}
+
+/**
+ * Cached result for an identical or near-duplicate text, marked as cached
+ * and counted in trending, or null on a miss.
+ */
+async function findCachedResult(text: string, options: RunAnalysisOptions): Promise<any | null> {
+  const fingerprint = computeFingerprint(text)
+  const similarity = computeSimilarityKeys(text)
+  const cached = (await getCachedAnalysis(fingerprint)) || (await getNearDuplicateAnalysis(similarity))
+  if (!cached) return null
+
+  const kind = cached.distance !== undefined ? `near-duplicate (distance ${cached.distance})` : 'exact'
+  console.log(`[analysisService] Cache hit (${kind}) for ${fingerprint.slice(0, 12)} (from ${cached.cachedAt})`)
+  const result = {
+    ...cached.result,
+    ...(cached.id ? { resultId: cached.id, resultUrl: getResultUrl(cached.id) } : {}),
+    meta: {
+      ...cached.result.meta,
+      cached: true,
+      cachedAt: cached.cachedAt,
+      ...(cached.distance !== undefined ? {
+        nearDuplicate: { analysisId: cached.id, distance: cached.distance },
+        warnings: [
+          ...(cached.result.meta?.warnings || []),
+          'Conteúdo muito parecido com uma mensagem já analisada (variação da mesma corrente). O veredito anterior foi reaproveitado.',
+        ],
+      } : {}),
+    },
+  }
+  options.onProgress?.({ step: 'cached', cachedAt: cached.cachedAt, nearDuplicate: cached.distance !== undefined })
+  await updateTrending(result, similarity)
+  return result
+}
+
+/**
+ * Extract, analyze (or reuse a cached result), persist and return the result.
+ * Expected failures (bad link, unsupported input…) are returned, not thrown.
+ */
+export async function runAnalysis(input: AnalysisInput, options: RunAnalysisOptions = {}): Promise<{ ok: true; result: any } | ServiceFailure> {
+  const { inputType, content, force } = input
+
+  try {
+    // ── 1. Extract content from URL if inputType=link ──
+    let textForAnalysis = content
+    let sourceUrl: string | undefined
+    let effectiveInputType: string = inputType  // track if it becomes youtube_transcript
+    let segments: TranscriptSegment[] | undefined
+    let pdf: PdfDocumentInfo | undefined
+    let post: SocialPost | undefined
+    let youtube: YouTubeVideoInfo | undefined
+    let ocr: ImageOcr | undefined
+    let forensics: ImageForensics | undefined
+    const extractionWarnings: string[] = []
+    const isImage = inputType === 'image'
+    const extracts = inputType === 'link' || inputType === 'audio' || inputType === 'pdf' || isImage
+
+    // Uploaded images are fingerprinted by their bytes: a cache hit skips OCR and forensics
+    if (isImage && !force) {
+      const cached = await findCachedResult(content, options)
+      if (cached) return { ok: true, result: cached }
+    }
+
+    if (extracts) {
+      await options.onStage?.('extracting')
+      options.onProgress?.({ step: 'extracting', inputType })
+    }
+
+    if (inputType === 'link') {
+      if (!isValidUrl(content.trim())) {
+        return fail(400, 'VALIDATION', 'URL inválida. Verifique o formato e tente novamente.')
+      }
+
+      const isYT = isYouTubeUrl(content.trim())
+      console.log(`[analysisService] URL extraction — isYouTube: ${isYT}, url: ${content.trim().slice(0, 100)}`)
+
+      const extraction = await extractFromUrl(content.trim())
+
+      if (!extraction.ok || !extraction.text) {
+        console.warn(`[analysisService] Extraction failed: ${extraction.error}`)
+        return fail(422, 'EXTRACTION_FAILED', extraction.error || 'Não foi possível extrair conteúdo do link.')
+      }
+
+      textForAnalysis = extraction.text
+      sourceUrl = extraction.sourceUrl
+      extractionWarnings.push(...extraction.warnings)
+
+      if (extraction.pdf) {
+        pdf = extraction.pdf
+        effectiveInputType = 'pdf_document'
+      } else if (extraction.post) {
+        post = extraction.post
+        effectiveInputType = 'social_post'
+      } else if (isYT) {
+        effectiveInputType = 'youtube_transcript'
+        segments = extraction.transcript
+        youtube = extraction.youtube
+        console.log(`[analysisService] YouTube transcript obtained: ${textForAnalysis.length} chars`)
+      }
+    }
+
+    // ── 1b. Extract transcript from audio if inputType=audio ──
+    if (inputType === 'audio') {
+      console.log(`[analysisService] Audio transcription via Whisper-SRT...`)
+      const audioResult = await extractAudioTranscript(content)
+
+      if (!audioResult.ok || !audioResult.text) {
+        console.warn(`[analysisService] Audio extraction failed: ${audioResult.error}`)
+        return fail(422, 'EXTRACTION_FAILED', audioResult.error || 'Não foi possível transcrever o áudio.')
+      }
+
+      textForAnalysis = audioResult.text
+      segments = audioResult.segments?.map(s => ({ ...s, start: srtTimeToSeconds(s.start), end: srtTimeToSeconds(s.end) }))
+      effectiveInputType = 'audio_transcript'
+      extractionWarnings.push(...audioResult.warnings)
+      console.log(`[analysisService] Audio transcript obtained: ${textForAnalysis.length} chars`)
+    }
+
+    // ── 1c. Extract text and metadata from an uploaded PDF ──
+    if (inputType === 'pdf') {
+      const pdfResult = await extractPdfFromDataUrl(content)
+
+      if (!pdfResult.ok || !pdfResult.text) {
+        console.warn(`[analysisService] PDF extraction failed: ${pdfResult.error}`)
+        return fail(422, 'EXTRACTION_FAILED', pdfResult.error || 'Não foi possível extrair o texto do PDF.')
+      }
+
+      textForAnalysis = pdfResult.text
+      pdf = pdfResult.pdf
+      effectiveInputType = 'pdf_document'
+      extractionWarnings.push(...pdfResult.warnings)
+      console.log(`[analysisService] PDF text obtained: ${textForAnalysis.length} chars, ${pdf?.pagesAnalyzed}/${pdf?.pageCount} pages`)
+    }
+
+    // ── 1d. Uploaded image: text layer (local OCR) and technical signals, both best-effort ──
+    if (isImage) {
+      const [ocrResult, imageForensics] = await Promise.all([
+        isOcrEnabled() ? extractImageText(content) : null,
+        analyzeImageForensics(content).catch(err => {
+          console.warn('[analysisService] image forensics failed (non-blocking):', err)
+          return null
+        }),
+      ])
+
+      if (ocrResult) {
+        extractionWarnings.push(...ocrResult.warnings)
+        if (!ocrResult.ok) {
+          extractionWarnings.push(`${ocrResult.error} A imagem foi analisada sem o texto extraído.`)
+        } else if (ocrResult.ocr) {
+          ocr = ocrResult.ocr
+          console.log(`[analysisService] OCR text obtained: ${ocr.text.length} chars, ${ocr.lines.length} lines, confidence ${ocr.confidence}%`)
+        }
+      }
+
+      if (imageForensics) {
+        forensics = imageForensics
+        extractionWarnings.push(...imageForensics.signals)
+        console.log(`[analysisService] Image forensics: ${imageForensics.signals.length} signal(s), ${imageForensics.similar.length} similar image(s)`)
+      }
+    }
+
+    if (extracts) {
+      options.onProgress?.({
+        step: 'extracted',
+        chars: inputType === 'image' ? ocr?.text.length || 0 : textForAnalysis.length,
+        ...(segments ? { segments: segments.length } : {}),
+        ...(sourceUrl ? { sourceUrl } : {}),
+      })
+    }
+
+    // ── 2. Sanitize text before LLM (text, link, youtube and audio transcript types) ──
+    // (long content is analyzed in chunks by analyzePipeline, up to MAX_ANALYZED_CHARS)
+    if (effectiveInputType === 'text' || effectiveInputType === 'youtube_transcript' || effectiveInputType === 'audio_transcript' || effectiveInputType === 'pdf_document' || inputType === 'link') {
+      textForAnalysis = sanitizeForLLM(textForAnalysis, MAX_ANALYZED_CHARS + 1)
+      if (textForAnalysis.length > MAX_ANALYZED_CHARS) {
+        textForAnalysis = textForAnalysis.slice(0, MAX_ANALYZED_CHARS)
+        extractionWarnings.push(`Conteúdo truncado em ${MAX_ANALYZED_CHARS.toLocaleString('pt-BR')} caracteres.`)
+      }
+    }
+
+    await options.onStage?.('analyzing')
+
+    // ── 3. Cached result for an identical or near-duplicate text (unless force=true; images were looked up before OCR) ──
+    const fingerprint = computeFingerprint(textForAnalysis)
+    const similarity = computeSimilarityKeys(textForAnalysis)
+    const cached = force || isImage ? null : await findCachedResult(textForAnalysis, options)
+    if (cached) return { ok: true, result: cached }
+
+    // ── 3b. Run analysis pipeline ──
+    const result = await analyzePipeline(effectiveInputType, textForAnalysis, {
+      segments,
+      pdf,
+      post,
+      youtube,
+      ocr,
+      forensics,
+      onModelCall: call => options.onProgress?.({ step: 'model', ...call }),
+      onPartialSummary: partial => options.onProgress?.({ step: 'summary', ...partial }),
+    })
+
+    // Attach extraction metadata
+    if (sourceUrl) {
+      result.meta = result.meta || {}
+      result.meta.sourceUrl = sourceUrl
+    }
+    if (extractionWarnings.length > 0) {
+      result.meta = result.meta || {}
+      result.meta.warnings = [
+        ...(result.meta.warnings || []),
+        ...extractionWarnings,
+      ]
+    }
+    result.meta.cached = false
+
+    // ── 4. Persist to Supabase (best-effort) and expose the permalink ──
+    let resultId: string | undefined
+    try {
+      const supabase = createServerSupabase()
+      const inputSummary = ocr
+        ? `[Imagem] ${ocr.text.slice(0, 492)}`
+        : (inputType === 'link' ? `[${content.trim()}] ` : '') + textForAnalysis.slice(0, 500)
+
+      const { data: inserted, error: insertErr } = await supabase.from('analyses').insert({
+        input_type: inputType,
+        input_summary: inputSummary,
+        scores: result.scores,
+        verdict: toVerdict(result.summary?.verdict),
+        report_markdown: result.reportMarkdown,
+        claims: result.claims || [],
+        // Text the claim spans point into (OCR text for images; not stored for raw uploads)
+        analyzed_text: ocr ? ocr.text : textForAnalysis.startsWith('data:') ? null : textForAnalysis,
+        fingerprint: result.meta?.fingerprint || null,
+        normalized_fingerprint: similarity.normalizedFingerprint,
+        simhash: similarity.simhash,
+        simhash_bands: similarity.simhashBands,
+        image_phash: forensics?.phash || null,
+        image_phash_bands: forensics?.phash ? simhashBands(forensics.phash) : null,
+        analysis_mode: result.meta?.mode || null,
+        result,
+        is_flagged: result.meta?.mode !== 'parse_fallback' && isFlaggedVerdict(result.summary?.verdict),
+      }).select('id').single()
+
+      if (insertErr) throw insertErr
+      resultId = inserted?.id
+    } catch (dbErr) {
+      console.error('[analysisService] Supabase insert failed (non-blocking):', dbErr)
+    }
+
+    if (resultId) {
+      result.resultId = resultId
+      result.resultUrl = getResultUrl(resultId)
+    }
+
+    await setCachedAnalysis(fingerprint, { id: resultId, result, cachedAt: result.meta.createdAt || new Date().toISOString() })
+
+    // ── 5. Update trending aggregation ──
+    await updateTrending(result, similarity)
+
+    return { ok: true, result }
+  } catch (err) {
+    if (err instanceof LLMCapabilityError) {
+      console.warn(`[analysisService] Provider ${getLLMProviderName()} lacks capability: ${err.capability}`)
+      const media = err.capability === 'image' ? 'imagens' : 'áudio'
+      return fail(422, 'UNSUPPORTED_INPUT', `O provedor de IA configurado não aceita ${media}. Envie o conteúdo como texto.`)
+    }
+    throw err
+  }
+}
@@ -0,0 +1,209 @@
+import 'server-only'
+import crypto from 'crypto'
+import { envInt } from './env'
+import { createServerSupabase } from './supabaseServer'
+import { checkQuotasAsync, type RateLimitResult } from './rateLimitUpstash'
+
+/**
+ * Per-user API keys for programmatic access to /api/check.
+ *
+ * Keys look like `fnv_live_<32 random bytes, base64url>`. Only the SHA-256 is
+ * stored (`api_keys.key_hash`); the plaintext is returned once at creation.
+ * Each key has a daily and a monthly quota enforced through the Upstash
+ * limiter, and a per-day request counter in `api_key_usage`.
+ */
+
+export const API_KEY_PREFIX = 'fnv_live_'
+export const MAX_KEYS_PER_USER = 5
+
+const DEFAULT_DAILY_LIMIT = envInt('API_KEY_DAILY_LIMIT', 100)
+const DEFAULT_MONTHLY_LIMIT = envInt('API_KEY_MONTHLY_LIMIT', 2000)
+
+export class ApiKeyError extends Error {
+  constructor(message: string, public code = 'API_KEY_ERROR') {
+    super(message)
+    this.name = 'ApiKeyError'
+  }
+}
+
+export interface ApiKeyRecord {
+  id: string
+  owner_id: string
+  name: string
+  key_prefix: string
+  daily_limit: number
+  monthly_limit: number
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+export interface ApiKeyWithUsage extends ApiKeyRecord {
+  usage: { today: number; month: number; total: number }
+}
+
+export interface ApiKeyQuotaResult {
+  allowed: boolean
+  /** Window that ran out (only when not allowed) */
+  exceeded?: 'day' | 'month'
+  /** The tighter of the two windows, for X-RateLimit-* headers */
+  rate: RateLimitResult
+}
+
+const RECORD_COLUMNS = 'id, owner_id, name, key_prefix, daily_limit, monthly_limit, created_at, last_used_at, revoked_at'
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+/** Whether a bearer token has the shape of a per-user key (vs. ANALYZE_API_KEY) */
+export function isUserApiKey(value: string): boolean {
+  return value.startsWith(API_KEY_PREFIX)
+}
+
+function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url')
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6), hash: hashApiKey(key) }
+}
+
+/**
+ * Active (non-revoked) key matching the plaintext, or null.
+ */
+export async function authenticateApiKey(key: string): Promise<ApiKeyRecord | null> {
+  if (!isUserApiKey(key)) return null
+
+  const supabase = createServerSupabase()
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(RECORD_COLUMNS)
+    .eq('key_hash', hashApiKey(key))
+    .is('revoked_at', null)
+    .maybeSingle()
+
+  if (error) {
+    console.error('[apiKeys] lookup failed:', error)
+    return null
+  }
+  return data as ApiKeyRecord | null
+}
+
+/**
+ * Consume `cost` requests (one per analysis) from the key's daily and monthly
+ * quotas (UTC calendar day and month, as shown in the dashboard). Neither is
+ * charged when either would run out.
+ */
+export async function checkApiKeyQuota(record: ApiKeyRecord, cost = 1): Promise<ApiKeyQuotaResult> {
+  const { allowed, exceeded, rates } = await checkQuotasAsync(`key:${record.id}`, [
+    { limit: record.daily_limit, window: 'day' },
+    { limit: record.monthly_limit, window: 'month' },
+  ], cost)
+  const [day, month] = rates
+
+  if (!allowed) return { allowed: false, exceeded, rate: exceeded === 'month' ? month : day }
+  return { allowed: true, rate: month.remaining < day.remaining ? month : day }
+}
+
+/** Bump today's usage counter by `count` (best-effort, never throws) */
+export async function recordApiKeyUsage(keyId: string, count = 1): Promise<void> {
+  try {
+    const supabase = createServerSupabase()
+    const { error } = await supabase.rpc('increment_api_key_usage', { p_key_id: keyId, p_count: count })
+    if (error) console.warn('[apiKeys] usage counter failed:', error)
+  } catch (err) {
+    console.warn('[apiKeys] usage counter failed:', err)
+  }
+}
+
+/**
+ * Keys of a user (active first, newest first) with today / this month / total usage.
+ */
+export async function listApiKeys(ownerId: string): Promise<ApiKeyWithUsage[]> {
+  const supabase = createServerSupabase()
+  const { data: keys, error } = await supabase
+    .from('api_keys')
+    .select(RECORD_COLUMNS)
+    .eq('owner_id', ownerId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw new ApiKeyError('Não foi possível carregar as chaves.')
+  if (!keys || keys.length === 0) return []
+
+  const { data: usageRows } = await supabase
+    .from('api_key_usage')
+    .select('api_key_id, day, requests')
+    .in('api_key_id', keys.map(k => k.id))
+
+  const today = new Date().toISOString().slice(0, 10)
+  const monthStart = today.slice(0, 8) + '01'
+
+  return (keys as ApiKeyRecord[])
+    .map(k => {
+      const usage = { today: 0, month: 0, total: 0 }
+      for (const row of usageRows || []) {
+        if (row.api_key_id !== k.id) continue
+        usage.total += row.requests
+        if (row.day >= monthStart) usage.month += row.requests
+        if (row.day === today) usage.today += row.requests
+      }
+      return { ...k, usage }
+    })
+    .sort((a, b) => Number(Boolean(a.revoked_at)) - Number(Boolean(b.revoked_at)))
+}
+
+/**
+ * Issue a new key. Returns the plaintext once; only its hash is stored.
+ */
+export async function createApiKey(owner: { id: string; email?: string | null }, name: string): Promise<{ key: string; record: ApiKeyRecord }> {
+  const supabase = createServerSupabase()
+
+  const { count } = await supabase
+    .from('api_keys')
+    .select('id', { count: 'exact', head: true })
+    .eq('owner_id', owner.id)
+    .is('revoked_at', null)
+
+  if ((count || 0) >= MAX_KEYS_PER_USER) {
+    throw new ApiKeyError(`Limite de ${MAX_KEYS_PER_USER} chaves ativas atingido. Revogue uma chave antes de criar outra.`, 'KEY_LIMIT')
+  }
+
+  // api_keys.owner_id references profiles — make sure the row exists
+  await supabase.from('profiles').upsert({ id: owner.id, email: owner.email }, { onConflict: 'id' })
+
+  const { key, prefix, hash } = generateApiKey()
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert({
+      owner_id: owner.id,
+      name,
+      key_prefix: prefix,
+      key_hash: hash,
+      daily_limit: DEFAULT_DAILY_LIMIT,
+      monthly_limit: DEFAULT_MONTHLY_LIMIT,
+    })
+    .select(RECORD_COLUMNS)
+    .single()
+
+  if (error || !data) {
+    console.error('[apiKeys] insert failed:', error)
+    throw new ApiKeyError('Não foi possível criar a chave. Tente novamente.')
+  }
+
+  return { key, record: data as ApiKeyRecord }
+}
+
+/**
+ * Revoke a key owned by the user. Returns false when no active key matched.
+ */
+export async function revokeApiKey(ownerId: string, keyId: string): Promise<boolean> {
+  const supabase = createServerSupabase()
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', keyId)
+    .eq('owner_id', ownerId)
+    .is('revoked_at', null)
+    .select('id')
+
+  if (error) throw new ApiKeyError('Não foi possível revogar a chave.')
+  return (data || []).length > 0
+}
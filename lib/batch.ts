@@ -0,0 +1,91 @@
+import 'server-only'
+import { runAnalysis } from './analysisService'
+import { forEachWithConcurrency } from './concurrency'
+import { envInt } from './env'
+import { computeFingerprint, computeSimilarityKeys } from './fingerprint'
+import { checkQuotaAsync, type RateLimitResult } from './rateLimitUpstash'
+import type { BatchItemInput } from './validations'
+import type { ApiErrorCode } from './validations/responses'
+
+/**
+ * Batch analysis for the fact-checking desk (/api/batch and the /batch CSV page).
+ *
+ * Items are deduplicated by fingerprint before anything runs, so a message
+ * forwarded ten times costs one analysis. Unique items go through the same
+ * flow as /api/check (extraction, result cache, analyzePipeline, persistence)
+ * with at most BATCH_CONCURRENCY running at once.
+ */
+
+const BATCH_CONCURRENCY = envInt('BATCH_CONCURRENCY', 3)
+/** Items not started by then are skipped, keeping the request under maxDuration (300s) */
+const BATCH_DEADLINE_MS = 240_000
+/** Unique items per day for logged-in users without an API key (API keys use their own quota) */
+const BATCH_DAILY_LIMIT = envInt('BATCH_DAILY_LIMIT', 200)
+
+type ItemOutcome =
+  | { ok: true; result: any }
+  | { ok: false; error: ApiErrorCode; message: string }
+
+export type BatchItemResult = { index: number; inputType: string; duplicateOf?: number } & ItemOutcome
+
+/**
+ * Dedup key: exact URL for links; for texts the normalized fingerprint, so
+ * forwarded copies that only differ in emoji, accents or "URGENTE" collapse.
+ */
+function batchItemKey(item: BatchItemInput): string {
+  if (item.inputType === 'link') return `link:${computeFingerprint(item.content.trim())}`
+  const keys = computeSimilarityKeys(item.content)
+  return `text:${keys.tokens > 0 ? keys.normalizedFingerprint : computeFingerprint(item.content)}`
+}
+
+/** For each item, the index of its first occurrence (itself when unique) */
+export function dedupeBatch(items: BatchItemInput[]): number[] {
+  const seen = new Map<string, number>()
+  return items.map((item, i) => {
+    const key = batchItemKey(item)
+    const first = seen.get(key)
+    if (first !== undefined) return first
+    seen.set(key, i)
+    return i
+  })
+}
+
+/** Charge `cost` unique items to a logged-in user's daily batch quota */
+export function checkBatchQuota(userId: string, cost: number): Promise<RateLimitResult> {
+  return checkQuotaAsync(`batch:${userId}`, BATCH_DAILY_LIMIT, 'day', cost)
+}
+
+/**
+ * Analyze every unique item and return one result per input item, in order.
+ * `firstOf` is the output of dedupeBatch (the route computes it up front to
+ * charge the quota per unique item).
+ */
+export async function runBatch(items: BatchItemInput[], firstOf = dedupeBatch(items)): Promise<BatchItemResult[]> {
+  const unique = firstOf.filter((first, i) => first === i)
+  const deadline = Date.now() + BATCH_DEADLINE_MS
+  const outcomes = new Map<number, ItemOutcome>()
+
+  await forEachWithConcurrency(unique, BATCH_CONCURRENCY, async index => {
+    if (Date.now() > deadline) {
+      outcomes.set(index, { ok: false, error: 'BATCH_DEADLINE', message: 'Tempo limite do lote atingido antes deste item. Envie-o novamente.' })
+      return
+    }
+
+    try {
+      const outcome = await runAnalysis(items[index])
+      outcomes.set(index, outcome.ok
+        ? { ok: true, result: outcome.result }
+        : { ok: false, error: outcome.error, message: outcome.message })
+    } catch (err) {
+      console.error(`[batch] item ${index} failed:`, err)
+      outcomes.set(index, { ok: false, error: 'ANALYZE_FAILED', message: 'Falha ao analisar no servidor. Tente novamente.' })
+    }
+  })
+
+  return items.map((item, i) => ({
+    index: i,
+    inputType: item.inputType,
+    ...(firstOf[i] !== i ? { duplicateOf: firstOf[i] } : {}),
+    ...outcomes.get(firstOf[i])!,
+  }))
+}
@@ -0,0 +1,101 @@
+import { sanitizeForLLM } from './validations'
+import type { TimeRange, TranscriptSegment } from './claims'
+
+/**
+ * Splitting of long content for map-reduce analysis: each chunk is analyzed
+ * in its own model call (analyzePipeline) and the answers are merged.
+ *
+ * Text is cut at the coarsest boundary available (paragraph, line, sentence,
+ * word); transcripts are cut between whole segments, so every chunk keeps
+ * the time range it covers.
+ */
+
+/** Content up to this size is analyzed in a single model call */
+export const CHUNK_CHARS = 12_000
+/** Chunks past this are not analyzed */
+export const MAX_CHUNKS = 8
+/** Extractors and the service cap content here (MAX_CHUNKS full chunks) */
+export const MAX_ANALYZED_CHARS = CHUNK_CHARS * MAX_CHUNKS
+
+export interface ContentChunk {
+  text: string
+  /** Transcripts: seconds of the audio or video the chunk covers */
+  time?: TimeRange
+  /** Videos: titles of the chapters the chunk overlaps */
+  chapters?: string[]
+}
+
+/** Cut points, coarsest first */
+const BOUNDARIES = [/\n\s*\n/g, /\n/g, /[.!?…]["'”»)]*\s+/g, /\s+/g]
+
+/**
+ * End offset of the chunk starting at `from`: after the last boundary of the
+ * coarsest kind found in the second half of the window, else a hard cut.
+ */
+function findCut(text: string, from: number, maxChars: number): number {
+  const window = text.slice(from, from + maxChars)
+  for (const boundary of BOUNDARIES) {
+    let cut = -1
+    for (const m of window.matchAll(boundary)) {
+      if (m.index! >= maxChars / 2) cut = m.index! + m[0].length
+    }
+    if (cut > 0) return from + cut
+  }
+  return from + maxChars
+}
+
+/**
+ * Split text into chunks of up to `maxChars` (a single chunk when it fits).
+ */
+export function splitText(text: string, maxChars = CHUNK_CHARS): ContentChunk[] {
+  const chunks: ContentChunk[] = []
+  let from = 0
+  while (from < text.length) {
+    const end = text.length - from <= maxChars ? text.length : findCut(text, from, maxChars)
+    const chunk = text.slice(from, end).trim()
+    if (chunk) chunks.push({ text: chunk })
+    from = end
+  }
+  return chunks
+}
+
+/**
+ * Split a transcript into chunks of whole segments, up to `maxChars` each.
+ * Past half a chunk, a new one starts at the next chapter so that topics
+ * are not cut in the middle. Music-only segments are left out, as in the
+ * analyzed text.
+ */
+export function chunkTranscript(
+  segments: TranscriptSegment[],
+  chapters: { start: number; title: string }[] = [],
+  maxChars = CHUNK_CHARS,
+): ContentChunk[] {
+  const groups: TranscriptSegment[][] = []
+  let current: TranscriptSegment[] = []
+  let length = 0
+
+  for (const seg of segments) {
+    if (seg.instrumental) continue
+    const prev = current[current.length - 1]
+    const chapterStarts = !!prev && chapters.some(c => c.start > prev.start && c.start <= seg.start)
+    if (current.length > 0 && (length + seg.text.length + 1 > maxChars || (chapterStarts && length >= maxChars / 2))) {
+      groups.push(current)
+      current = []
+      length = 0
+    }
+    current.push(seg)
+    length += seg.text.length + 1
+  }
+  if (current.length > 0) groups.push(current)
+
+  return groups.map(group => {
+    const start = group[0].start
+    const end = group[group.length - 1].end
+    const overlapping = chapters.filter((c, i) => c.start < end && (chapters[i + 1]?.start ?? Infinity) > start)
+    return {
+      text: sanitizeForLLM(group.map(s => s.text).join(' '), maxChars),
+      time: { start, end },
+      ...(overlapping.length > 0 ? { chapters: overlapping.map(c => c.title) } : {}),
+    }
+  })
+}
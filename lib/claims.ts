@@ -0,0 +1,221 @@
+/**
+ * Per-claim helpers: claim types and evidence spans.
+ *
+ * The model returns an exact `quote` from the analyzed text for each claim;
+ * the server locates it and stores character offsets (`span`) so the result
+ * page can highlight the sentence that was judged. For audio transcripts the
+ * SRT segment and time range where it was spoken are stored as well; for
+ * images, the OCR region.
+ */
+
+export const CLAIM_TYPES = ['statistic', 'quote', 'causal', 'prediction', 'other'] as const
+
+export type ClaimType = typeof CLAIM_TYPES[number]
+
+export const CLAIM_TYPE_LABELS: Record<ClaimType, string> = {
+  statistic: 'Estatística',
+  quote: 'Citação',
+  causal: 'Relação causal',
+  prediction: 'Previsão',
+  other: 'Afirmação factual',
+}
+
+export interface ClaimSpan {
+  start: number
+  end: number
+}
+
+/** Seconds from the start of the audio or video */
+export interface TimeRange {
+  start: number
+  end: number
+}
+
+/** Transcript segment (audio SRT or video captions) with its times in seconds */
+export interface TranscriptSegment {
+  index: string
+  start: number
+  end: number
+  text: string
+  instrumental: boolean
+}
+
+/** Map loose model output ("Statistic", "estatística"…) to a claim type */
+export function normalizeClaimType(value: unknown): unknown {
+  if (typeof value !== 'string') return value
+  const key = value.trim().toLowerCase()
+  if ((CLAIM_TYPES as readonly string[]).includes(key)) return key
+  const aliases: Record<string, ClaimType> = {
+    'estatística': 'statistic', 'estatistica': 'statistic', 'statistical': 'statistic', 'number': 'statistic',
+    'citação': 'quote', 'citacao': 'quote', 'quotation': 'quote',
+    'causal relation': 'causal', 'causa': 'causal',
+    'previsão': 'prediction', 'previsao': 'prediction', 'forecast': 'prediction',
+    'factual': 'other', 'fact': 'other',
+  }
+  return aliases[key] ?? 'other'
+}
+
+export function claimTypeLabel(value: unknown): string {
+  return CLAIM_TYPE_LABELS[normalizeClaimType(value) as ClaimType] || CLAIM_TYPE_LABELS.other
+}
+
+/**
+ * Build a lowercase, single-spaced copy of `text` plus a map from each
+ * normalized character back to its offset in the original string.
+ */
+function normalizeWithMap(text: string): { normalized: string; map: number[] } {
+  let normalized = ''
+  const map: number[] = []
+  let prevSpace = true
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (/\s/.test(ch)) {
+      if (prevSpace) continue
+      normalized += ' '
+      map.push(i)
+      prevSpace = true
+    } else {
+      normalized += ch.toLowerCase()
+      map.push(i)
+      prevSpace = false
+    }
+  }
+
+  return { normalized, map }
+}
+
+function normalizeQuote(quote: string): string {
+  return quote
+    .replace(/^["'“”‘’«»\s]+|["'“”‘’«»\s.…]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .toLowerCase()
+}
+
+/**
+ * Locate a quote in the source text.
+ * Tries an exact match first, then a case/whitespace-insensitive one.
+ * Returns null when the quote does not occur in the text.
+ */
+export function locateQuote(text: string, quote: string | undefined | null): ClaimSpan | null {
+  if (!text || !quote) return null
+
+  const trimmed = quote.trim()
+  if (trimmed.length < 4) return null
+
+  const exact = text.indexOf(trimmed)
+  if (exact >= 0) return { start: exact, end: exact + trimmed.length }
+
+  const needle = normalizeQuote(trimmed)
+  if (needle.length < 4) return null
+
+  const { normalized, map } = normalizeWithMap(text)
+  const pos = normalized.indexOf(needle)
+  if (pos < 0) return null
+
+  const start = map[pos]
+  const end = map[pos + needle.length - 1] + 1
+  return { start, end }
+}
+
+/**
+ * Index of the transcript segment (SRT) where a quote was spoken.
+ * Matches on the first words of the quote so that quotes spanning two
+ * segments still resolve to the segment where they start.
+ */
+export function findSegmentIndex(
+  segments: { index: string; text: string; instrumental?: boolean }[] | undefined,
+  quote: string | undefined | null,
+): string | null {
+  if (!segments || segments.length === 0 || !quote) return null
+
+  const needle = normalizeQuote(quote)
+  if (needle.length < 4) return null
+  const head = needle.split(' ').slice(0, 6).join(' ')
+
+  for (const seg of segments) {
+    if (seg.instrumental) continue
+    const hay = normalizeQuote(seg.text)
+    if (!hay) continue
+    if (hay.includes(head) || needle.startsWith(hay)) return seg.index
+  }
+
+  return null
+}
+
+/** SRT timestamp ("00:01:02,500") in seconds */
+export function srtTimeToSeconds(value: string): number {
+  const m = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/)
+  if (!m) return 0
+  return Number(m[1] || 0) * 3600 + Number(m[2]) * 60 + Number(m[3]) + Number((m[4] || '0').padEnd(3, '0')) / 1000
+}
+
+/** Seconds as "1:02" (or "1:02:03" past an hour) */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = String(total % 60).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
+
+/**
+ * Where a quote was spoken in a transcript: the segments it covers in the
+ * joined transcript text, as the first segment index and the time range from
+ * its start to the end of the last one. Quotes that do not occur verbatim
+ * fall back to the segment where they start (findSegmentIndex).
+ */
+export function findSpokenRange(
+  segments: TranscriptSegment[] | undefined,
+  quote: string | undefined | null,
+): { segmentIndex: string; time: TimeRange } | null {
+  if (!segments || segments.length === 0 || !quote) return null
+
+  const needle = normalizeQuote(quote)
+  if (needle.length < 4) return null
+
+  let joined = ''
+  const ranges: { seg: TranscriptSegment; from: number; to: number }[] = []
+  for (const seg of segments) {
+    if (seg.instrumental) continue
+    const text = seg.text.replace(/\s+/g, ' ').trim().toLowerCase()
+    if (!text) continue
+    if (joined) joined += ' '
+    ranges.push({ seg, from: joined.length, to: joined.length + text.length })
+    joined += text
+  }
+
+  const pos = joined.indexOf(needle)
+  let hit = pos >= 0 ? ranges.filter(r => r.from < pos + needle.length && r.to > pos) : []
+  if (hit.length === 0) {
+    const index = findSegmentIndex(segments, quote)
+    hit = ranges.filter(r => r.seg.index === index)
+  }
+  if (hit.length === 0) return null
+
+  return {
+    segmentIndex: hit[0].seg.index,
+    time: { start: hit[0].seg.start, end: hit[hit.length - 1].seg.end },
+  }
+}
+
+/**
+ * Image region (fractions of width/height) covered by a span of the OCR text:
+ * the union of the boxes of every OCR line the span touches.
+ */
+export function findOcrRegion(
+  lines: { text: string; start: number; box: { x: number; y: number; width: number; height: number } }[] | undefined,
+  span: ClaimSpan | null,
+): { x: number; y: number; width: number; height: number } | null {
+  if (!lines || lines.length === 0 || !span) return null
+
+  const hit = lines.filter(l => l.start < span.end && l.start + l.text.length > span.start)
+  if (hit.length === 0) return null
+
+  const x0 = Math.min(...hit.map(l => l.box.x))
+  const y0 = Math.min(...hit.map(l => l.box.y))
+  const x1 = Math.max(...hit.map(l => l.box.x + l.box.width))
+  const y1 = Math.max(...hit.map(l => l.box.y + l.box.height))
+  const round = (n: number) => Math.round(n * 10_000) / 10_000
+  return { x: round(x0), y: round(y0), width: round(x1 - x0), height: round(y1 - y0) }
+}
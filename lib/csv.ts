@@ -0,0 +1,57 @@
+/**
+ * Small RFC 4180 CSV reader/writer for the /batch page (runs in the browser).
+ * Spreadsheets exported in pt-BR locales use `;`, so the delimiter is detected
+ * from the first line.
+ */
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  const count = (ch: string) => firstLine.split(ch).length - 1
+  return count(';') > count(',') ? ';' : ','
+}
+
+/** Parse CSV text into rows of cells (quoted fields may contain delimiters and newlines) */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') { cell += '"'; i++ }
+      else if (ch === '"') quoted = false
+      else cell += ch
+    } else if (ch === '"' && cell === '') {
+      quoted = true
+    } else if (ch === delimiter) {
+      row.push(cell); cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      row.push(cell); rows.push(row); row = []; cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row) }
+
+  return rows.filter(r => r.some(c => c.trim() !== ''))
+}
+
+/** Spreadsheets run cells starting with these as formulas (CSV injection) */
+const FORMULA_START = /^[=+\-@\t\r]/
+
+function escapeCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  // Third-party text (messages, titles, errors) is kept as text; numbers stay numbers
+  if (typeof value === 'string' && FORMULA_START.test(text)) return `"'${text.replace(/"/g, '""')}"`
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Serialize rows as CSV (comma-separated, CRLF line endings) */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(r => r.map(escapeCell).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,10 @@
+/**
+ * Integer from the environment. Unset, empty or non-numeric values fall back
+ * to `fallback`; the result is clamped to [min, max].
+ */
+export function envInt(name: string, fallback: number, min = 1, max = Number.MAX_SAFE_INTEGER): number {
+  const raw = process.env[name]?.trim()
+  const parsed = raw ? Number(raw) : NaN
+  const value = Number.isFinite(parsed) ? Math.floor(parsed) : fallback
+  return Math.min(max, Math.max(min, value))
+}
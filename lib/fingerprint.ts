@@ -0,0 +1,141 @@
+import crypto from 'crypto'
+
+/**
+ * Exact content fingerprint (SHA-256 hex of the analyzed text).
+ * Stored in analyses.fingerprint and used as the result cache key.
+ */
+export function computeFingerprint(content: string): string {
+  return crypto.createHash('sha256').update(content || '').digest('hex')
+}
+
+// ── Near-duplicate detection ──
+//
+// Chain messages get forwarded with an extra emoji, "URGENTE" prepended or a
+// changed name. Two complementary keys catch those variants:
+//   - normalizedFingerprint: SHA-256 of the text after aggressive normalization
+//     (accents, emoji, punctuation and forwarding noise removed)
+//   - simhash: 64-bit SimHash over word 3-shingles; variants differ by a few bits
+//
+// To query SimHash in Postgres without a custom extension, the hash is split
+// into 6 bands of 10–11 bits. Two hashes within 5 bits of each other share at
+// least one identical band (pigeonhole), so a band overlap query returns every
+// candidate and the exact Hamming distance is checked in JS.
+
+/** Max Hamming distance (of 64 bits) for two texts to count as the same hoax */
+export const SIMHASH_MAX_DISTANCE = 5
+
+/** Below this many tokens SimHash is too unstable; only the normalized fingerprint is used */
+export const SIMHASH_MIN_TOKENS = 8
+
+const SIMHASH_BAND_SIZES = [11, 11, 11, 11, 10, 10]
+const SHINGLE_SIZE = 3
+
+/** Tokens that forwarding adds without changing the message */
+const NOISE_TOKENS = new Set([
+  'urgente', 'atencao', 'importante', 'encaminhada', 'encaminhado', 'encaminhe',
+  'repassem', 'repasse', 'compartilhem', 'compartilhe', 'divulguem', 'divulgue',
+  'fwd', 'fw', 'enc', 'forwarded', 'urgent',
+])
+
+export interface SimilarityKeys {
+  /** Token count of the normalized text */
+  tokens: number
+  normalizedFingerprint: string
+  simhash: string
+  simhashBands: string[]
+}
+
+/**
+ * Normalize text for near-duplicate comparison: lowercase, strip accents,
+ * emoji, URLs, punctuation and forwarding noise, collapse whitespace.
+ */
+export function normalizeForFingerprint(text: string): string {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(t => t && !NOISE_TOKENS.has(t))
+    .join(' ')
+}
+
+function hash64(value: string): bigint {
+  const digest = crypto.createHash('md5').update(value).digest()
+  return digest.readBigUInt64BE(0)
+}
+
+/**
+ * 64-bit SimHash (hex, 16 chars) over word shingles of the normalized text.
+ */
+export function computeSimHash(normalized: string): string {
+  const tokens = normalized.split(' ').filter(Boolean)
+  const shingles: string[] = []
+
+  if (tokens.length < SHINGLE_SIZE) {
+    shingles.push(...tokens)
+  } else {
+    for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+      shingles.push(tokens.slice(i, i + SHINGLE_SIZE).join(' '))
+    }
+  }
+
+  const weights = new Array<number>(64).fill(0)
+  for (const shingle of shingles) {
+    const h = hash64(shingle)
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (h >> BigInt(bit)) & 1n ? 1 : -1
+    }
+  }
+
+  let result = 0n
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) result |= 1n << BigInt(bit)
+  }
+
+  return result.toString(16).padStart(16, '0')
+}
+
+/** Split a SimHash into bands tagged with their position ("0:3f2") */
+export function simhashBands(simhash: string): string[] {
+  const value = BigInt(`0x${simhash}`)
+  const bands: string[] = []
+  let offset = 0
+  SIMHASH_BAND_SIZES.forEach((size, i) => {
+    const band = (value >> BigInt(offset)) & ((1n << BigInt(size)) - 1n)
+    bands.push(`${i}:${band.toString(16)}`)
+    offset += size
+  })
+  return bands
+}
+
+/** Number of differing bits between two SimHash hex strings */
+export function hammingDistance(a: string, b: string): number {
+  let x = BigInt(`0x${a}`) ^ BigInt(`0x${b}`)
+  let count = 0
+  while (x) {
+    x &= x - 1n
+    count++
+  }
+  return count
+}
+
+export function isNearDuplicate(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false
+  return hammingDistance(a, b) <= SIMHASH_MAX_DISTANCE
+}
+
+/**
+ * Keys stored alongside analyses.fingerprint to group variants of a message.
+ */
+export function computeSimilarityKeys(content: string): SimilarityKeys {
+  const normalized = normalizeForFingerprint(content)
+  const simhash = computeSimHash(normalized)
+  return {
+    tokens: normalized ? normalized.split(' ').length : 0,
+    normalizedFingerprint: crypto.createHash('sha256').update(normalized).digest('hex'),
+    simhash,
+    simhashBands: simhashBands(simhash),
+  }
+}
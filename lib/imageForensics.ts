@@ -0,0 +1,289 @@
+import 'server-only'
+import sharp from 'sharp'
+import exifr from 'exifr'
+import { createServerSupabase } from './supabaseServer'
+import { hammingDistance, simhashBands } from './fingerprint'
+import { toVerdict } from './verdicts'
+
+/**
+ * Technical signals for uploaded images, shown next to the model's analysis:
+ *
+ *   - Metadata (EXIF/XMP): capture date, device and the software that last
+ *     saved the file. GPS coordinates are never stored — only their presence.
+ *   - Perceptual hash (64-bit DCT pHash): the same picture re-compressed,
+ *     resized or lightly cropped keeps a close hash, so images already
+ *     analyzed are found through `analyses.image_phash_bands` (same banding
+ *     scheme as the text SimHash, see lib/fingerprint.ts).
+ *   - Error level analysis (JPEG only): the image is re-saved at a known
+ *     quality and compared; regions pasted from another source tend to
+ *     re-compress differently from the rest.
+ *
+ * None of these prove manipulation on their own; they are reported as signals.
+ */
+
+/** Max Hamming distance (of 64 bits) for two images to count as the same picture */
+export const PHASH_MAX_DISTANCE = 5
+
+const ELA_QUALITY = 90
+const ELA_BLOCK = 16
+/** Above this many pixels ELA is skipped (memory on serverless instances) */
+const ELA_MAX_PIXELS = 16_000_000
+/** Share of blocks that stand out for ELA to be reported (below: noise, above: whole-image effect) */
+const ELA_HOTSPOT_MIN = 0.003
+const ELA_HOTSPOT_MAX = 0.15
+
+/** Software that indicates the image was edited, not just taken and shared */
+const EDITING_SOFTWARE = [
+  'photoshop', 'lightroom', 'gimp', 'snapseed', 'picsart', 'canva', 'pixlr', 'facetune',
+  'faceapp', 'meitu', 'affinity', 'paint.net', 'photopea', 'fotor', 'remini', 'vsco',
+]
+
+export interface ImageMetadata {
+  /** EXIF has any tags at all (messaging apps and social networks strip them) */
+  hasExif: boolean
+  capturedAt?: string
+  modifiedAt?: string
+  make?: string
+  model?: string
+  software?: string
+  /** GPS coordinates present in the file (not stored) */
+  hasGps: boolean
+}
+
+export interface ErrorLevelAnalysis {
+  /** Mean per-pixel difference after re-saving at ELA_QUALITY (0–255) */
+  meanError: number
+  /** Share of blocks whose error stands out from the rest of the image */
+  hotspotRatio: number
+  suspicious: boolean
+}
+
+export interface SimilarImage {
+  analysisId: string
+  createdAt: string
+  verdict: string
+  distance: number
+}
+
+export interface ImageForensics {
+  format?: string
+  width?: number
+  height?: number
+  metadata: ImageMetadata
+  phash?: string
+  ela?: ErrorLevelAnalysis
+  similar: SimilarImage[]
+  /** Noteworthy observations (pt-BR), also added to meta.warnings */
+  signals: string[]
+}
+
+function cleanString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().replace(/\0/g, '').slice(0, 120) : undefined
+}
+
+function toIso(value: unknown): string | undefined {
+  return value instanceof Date && !isNaN(value.getTime()) ? value.toISOString() : undefined
+}
+
+/** EXIF dates carry no time zone: show them as written in the file */
+function formatExifDate(iso: string): string {
+  return new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short', timeZone: 'UTC' })
+}
+
+async function readMetadata(bytes: Buffer): Promise<ImageMetadata> {
+  let tags: Record<string, any> | undefined
+  try {
+    tags = await exifr.parse(bytes, { tiff: true, exif: true, gps: true, xmp: true, icc: false, iptc: false, jfif: false, ihdr: false })
+  } catch {
+    tags = undefined
+  }
+  if (!tags) return { hasExif: false, hasGps: false }
+
+  return {
+    hasExif: true,
+    capturedAt: toIso(tags.DateTimeOriginal) || toIso(tags.CreateDate),
+    modifiedAt: toIso(tags.ModifyDate) || toIso(tags.MetadataDate),
+    make: cleanString(tags.Make),
+    model: cleanString(tags.Model),
+    software: cleanString(tags.Software) || cleanString(tags.CreatorTool),
+    hasGps: typeof tags.latitude === 'number' && typeof tags.longitude === 'number',
+  }
+}
+
+/**
+ * 64-bit perceptual hash (hex): 32×32 grayscale → 2D DCT → the 8×8 lowest
+ * frequencies compared against their median.
+ */
+export async function computePerceptualHash(bytes: Buffer): Promise<string> {
+  const N = 32
+  const pixels = await sharp(bytes)
+    .greyscale()
+    .resize(N, N, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  const cos = Array.from({ length: 8 }, (_, u) => Array.from({ length: N }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * N))))
+  const coeffs: number[] = []
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0
+      for (let y = 0; y < N; y++) {
+        for (let x = 0; x < N; x++) sum += pixels[y * N + x] * cos[u][x] * cos[v][y]
+      }
+      coeffs.push(sum)
+    }
+  }
+
+  // DC term (overall brightness) is left out of the median
+  const median = [...coeffs.slice(1)].sort((a, b) => a - b)[31]
+  let hash = 0n
+  coeffs.forEach((c, i) => { if (c > median) hash |= 1n << BigInt(i) })
+  return hash.toString(16).padStart(16, '0')
+}
+
+/**
+ * Error level analysis: re-save as JPEG, diff per pixel, and look for blocks
+ * whose error stands out (mean + 3σ of the block errors).
+ */
+async function errorLevelAnalysis(bytes: Buffer): Promise<ErrorLevelAnalysis> {
+  const original = await sharp(bytes).removeAlpha().raw().toBuffer({ resolveWithObject: true })
+  const resaved = await sharp(await sharp(bytes).jpeg({ quality: ELA_QUALITY }).toBuffer()).removeAlpha().raw().toBuffer()
+
+  const { width, height, channels } = original.info
+  const a = original.data
+  const blocksX = Math.floor(width / ELA_BLOCK)
+  const blocksY = Math.floor(height / ELA_BLOCK)
+  const blockErrors: number[] = []
+  let total = 0
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      let sum = 0
+      for (let y = by * ELA_BLOCK; y < (by + 1) * ELA_BLOCK; y++) {
+        for (let x = bx * ELA_BLOCK; x < (bx + 1) * ELA_BLOCK; x++) {
+          const i = (y * width + x) * channels
+          let max = 0
+          for (let c = 0; c < channels; c++) max = Math.max(max, Math.abs(a[i + c] - resaved[i + c]))
+          sum += max
+        }
+      }
+      const mean = sum / (ELA_BLOCK * ELA_BLOCK)
+      blockErrors.push(mean)
+      total += mean
+    }
+  }
+
+  if (blockErrors.length === 0) return { meanError: 0, hotspotRatio: 0, suspicious: false }
+
+  const mean = total / blockErrors.length
+  const std = Math.sqrt(blockErrors.reduce((s, e) => s + (e - mean) ** 2, 0) / blockErrors.length)
+  // Absolute floor so that near-uniform images do not flag rounding noise
+  const threshold = Math.max(mean + 3 * std, mean + 2, 4)
+  const hotspotRatio = blockErrors.filter(e => e > threshold).length / blockErrors.length
+
+  return {
+    meanError: Math.round(mean * 100) / 100,
+    hotspotRatio: Math.round(hotspotRatio * 10_000) / 10_000,
+    suspicious: hotspotRatio >= ELA_HOTSPOT_MIN && hotspotRatio <= ELA_HOTSPOT_MAX,
+  }
+}
+
+/**
+ * Previous analyses of the same picture (pHash within PHASH_MAX_DISTANCE bits).
+ */
+async function findSimilarImages(phash: string): Promise<SimilarImage[]> {
+  const supabase = createServerSupabase()
+  const { data: rows, error } = await supabase
+    .from('analyses')
+    .select('id, created_at, verdict, image_phash')
+    .overlaps('image_phash_bands', simhashBands(phash))
+    .order('created_at', { ascending: false })
+    .limit(50)
+  if (error) throw error
+
+  return (rows || [])
+    .map(row => ({
+      analysisId: row.id as string,
+      createdAt: row.created_at as string,
+      verdict: toVerdict(row.verdict),
+      distance: row.image_phash ? hammingDistance(row.image_phash, phash) : Infinity,
+    }))
+    .filter(s => s.distance <= PHASH_MAX_DISTANCE)
+    .slice(0, 3)
+}
+
+function buildSignals(f: Omit<ImageForensics, 'signals'>): string[] {
+  const signals: string[] = []
+  const { metadata: m } = f
+
+  const editor = m.software && EDITING_SOFTWARE.find(s => m.software!.toLowerCase().includes(s))
+  if (editor) {
+    signals.push(`Metadados indicam que a imagem foi salva em um editor de imagens ("${m.software}").`)
+  }
+
+  if (m.capturedAt && m.modifiedAt && new Date(m.modifiedAt).getTime() - new Date(m.capturedAt).getTime() > 60_000) {
+    signals.push(`Imagem modificada após a captura (capturada em ${formatExifDate(m.capturedAt)}, modificada em ${formatExifDate(m.modifiedAt)}).`)
+  }
+
+  if (m.capturedAt && new Date(m.capturedAt).getTime() > Date.now() + 86_400_000) {
+    signals.push(`Data de captura no futuro (${formatExifDate(m.capturedAt)}) — o relógio do aparelho ou os metadados podem ter sido alterados.`)
+  }
+
+  if (f.ela?.suspicious) {
+    signals.push(`A análise de nível de erro (ELA) encontrou regiões com compressão diferente do restante da imagem (${(f.ela.hotspotRatio * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}% da área) — possível montagem ou edição localizada. Textos e bordas nítidas também podem causar esse efeito.`)
+  }
+
+  for (const s of f.similar) {
+    const when = new Date(s.createdAt).toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' })
+    signals.push(`${s.distance === 0 ? 'Imagem idêntica' : 'Imagem muito parecida'} já analisada em ${when} (veredito: ${s.verdict}).`)
+  }
+
+  return signals
+}
+
+/**
+ * Metadata, perceptual hash (+ lookup of previous analyses) and ELA of an
+ * uploaded image (`data:image/…;base64,…`). Returns null when the image
+ * cannot be decoded; each step is best-effort.
+ */
+export async function analyzeImageForensics(dataUrl: string): Promise<ImageForensics | null> {
+  const match = dataUrl.match(/^data:image\/[\w.+-]+;base64,(.+)$/is)
+  if (!match) return null
+  const bytes = Buffer.from(match[1], 'base64')
+
+  let info: sharp.Metadata
+  try {
+    info = await sharp(bytes).metadata()
+  } catch (err: any) {
+    console.warn(`[imageForensics] Could not decode image: ${err?.message || err}`)
+    return null
+  }
+
+  const [metadata, phash] = await Promise.all([
+    readMetadata(bytes),
+    computePerceptualHash(bytes).catch(err => {
+      console.warn(`[imageForensics] pHash failed: ${err?.message || err}`)
+      return undefined
+    }),
+  ])
+
+  let ela: ErrorLevelAnalysis | undefined
+  if (info.format === 'jpeg' && (info.width || 0) * (info.height || 0) <= ELA_MAX_PIXELS) {
+    ela = await errorLevelAnalysis(bytes).catch(err => {
+      console.warn(`[imageForensics] ELA failed: ${err?.message || err}`)
+      return undefined
+    })
+  }
+
+  let similar: SimilarImage[] = []
+  if (phash) {
+    try {
+      similar = await findSimilarImages(phash)
+    } catch (err) {
+      console.warn('[imageForensics] similar image lookup failed (non-blocking):', err)
+    }
+  }
+
+  const base = { format: info.format, width: info.width, height: info.height, metadata, phash, ela, similar }
+  return { ...base, signals: buildSignals(base) }
+}
@@ -0,0 +1,337 @@
+import 'server-only'
+import crypto from 'crypto'
+import { createServerSupabase } from './supabaseServer'
+import { runAnalysis, type AnalysisInput, type AnalysisStage } from './analysisService'
+import { safeFetch } from './services/safeFetch'
+import { createSignedToken, isTokenSecretConfigured } from './tokens'
+import { APP_URL, getResultUrl } from './urls'
+import type { JobStatus } from './validations/responses'
+
+/**
+ * Asynchronous analysis jobs.
+ *
+ * POST /api/jobs stores the input in `analysis_jobs` (status `queued`) and
+ * dispatches the work; the runner moves the row through `extracting` →
+ * `analyzing` → `done` | `failed` and, when the caller registered one,
+ * POSTs a signed completion webhook.
+ *
+ * Dispatch (JOBS_DISPATCH):
+ *   - `http`   — fire a signed request at /api/jobs/:id/run so the work gets its
+ *                own function invocation (default on Vercel, where background
+ *                promises are frozen once the response is sent)
+ *   - `inline` — run in the current process after responding (default elsewhere)
+ */
+
+const STATUS_PROGRESS: Record<JobStatus, number> = {
+  queued: 0,
+  extracting: 20,
+  analyzing: 60,
+  done: 100,
+  failed: 100,
+}
+
+/** A running job not updated for this long is marked as failed */
+const STALE_AFTER_MS = 10 * 60_000
+const RUNNING_STATUSES: JobStatus[] = ['queued', 'extracting', 'analyzing']
+const STALE_ERROR = { error_code: 'ANALYZE_FAILED', error_message: 'A análise excedeu o tempo limite. Envie novamente.' }
+/** How long POST /api/jobs waits for the run request to be accepted */
+const DISPATCH_WAIT_MS = 1_500
+const WEBHOOK_TIMEOUT_MS = 10_000
+const WEBHOOK_RETRY_DELAYS_MS = [0, 2_000, 10_000]
+
+const DISPATCH_MODE = process.env.JOBS_DISPATCH || (process.env.VERCEL ? 'http' : 'inline')
+// Same deployment handles the run request (previews included)
+const DISPATCH_BASE = process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : APP_URL
+
+export interface JobView {
+  id: string
+  status: JobStatus
+  progress: number
+  inputType: string
+  createdAt: string
+  updatedAt: string
+  finishedAt: string | null
+  resultId?: string
+  resultUrl?: string
+  result?: any
+  error?: { code: string; message: string }
+  webhook?: { status: string | null; attempts: number }
+}
+
+export interface CreateJobInput extends AnalysisInput {
+  apiKeyId?: string | null
+  webhookUrl?: string
+}
+
+function isStale(row: any): boolean {
+  return RUNNING_STATUSES.includes(row.status) && Date.now() - new Date(row.updated_at).getTime() > STALE_AFTER_MS
+}
+
+function toView(row: any): JobView {
+  const stale = isStale(row)
+  const status: JobStatus = stale ? 'failed' : row.status
+  return {
+    id: row.id,
+    status,
+    progress: STATUS_PROGRESS[status] ?? row.progress,
+    inputType: row.input_type,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+    ...(row.analysis_id ? { resultId: row.analysis_id, resultUrl: getResultUrl(row.analysis_id) } : {}),
+    ...(row.status === 'done' ? { result: row.result } : {}),
+    ...(stale
+      ? { error: { code: STALE_ERROR.error_code, message: STALE_ERROR.error_message } }
+      : row.error_code ? { error: { code: row.error_code, message: row.error_message } } : {}),
+    ...(row.webhook_url ? { webhook: { status: row.webhook_status, attempts: row.webhook_attempts } } : {}),
+  }
+}
+
+/**
+ * http dispatch authenticates run requests with a signed token: jobs are
+ * refused until a token secret (UNSUB_SECRET / TOKEN_SECRET) is set.
+ */
+export function isJobDispatchConfigured(): boolean {
+  return DISPATCH_MODE !== 'http' || isTokenSecretConfigured()
+}
+
+/**
+ * Persist a queued job. Returns the webhook signing secret when a webhook was registered.
+ */
+export async function createJob(input: CreateJobInput): Promise<{ id: string; webhookSecret?: string }> {
+  const webhookSecret = input.webhookUrl ? `whsec_${crypto.randomBytes(24).toString('base64url')}` : undefined
+
+  const supabase = createServerSupabase()
+  const { data, error } = await supabase
+    .from('analysis_jobs')
+    .insert({
+      status: 'queued',
+      progress: 0,
+      input_type: input.inputType,
+      content: input.content,
+      force: Boolean(input.force),
+      api_key_id: input.apiKeyId || null,
+      webhook_url: input.webhookUrl || null,
+      webhook_secret: webhookSecret || null,
+      webhook_status: input.webhookUrl ? 'pending' : null,
+    })
+    .select('id')
+    .single()
+
+  if (error || !data) throw new Error(`analysis_jobs insert failed: ${error?.message || 'no row'}`)
+  return { id: data.id, webhookSecret }
+}
+
+export async function getJob(id: string): Promise<JobView | null> {
+  const supabase = createServerSupabase()
+  const { data } = await supabase
+    .from('analysis_jobs')
+    .select('id, status, progress, input_type, created_at, updated_at, finished_at, analysis_id, result, error_code, error_message, webhook_url, webhook_status, webhook_attempts')
+    .eq('id', id)
+    .maybeSingle()
+  if (!data) return null
+
+  // Reported as failed right away; the sweep persists it and sends the webhook
+  if (isStale(data)) failStaleJobs(id).catch(err => console.error(`[jobs] stale sweep of ${id} crashed:`, err))
+  return toView(data)
+}
+
+/**
+ * Persist the failure of running jobs not updated for STALE_AFTER_MS (only
+ * `id` when given) and send their `job.failed` webhooks. The update is
+ * conditional on the job still being stale, so each job fails once. Also
+ * retries webhooks of finished jobs still `pending` (e.g. a delivery cut
+ * short when the function was frozen). Returns the ids of the failed jobs.
+ */
+export async function failStaleJobs(id?: string): Promise<string[]> {
+  const supabase = createServerSupabase()
+  const now = new Date()
+  const cutoff = new Date(now.getTime() - STALE_AFTER_MS).toISOString()
+
+  let stale = supabase
+    .from('analysis_jobs')
+    .update({ status: 'failed', progress: 100, ...STALE_ERROR, content: null, finished_at: now.toISOString(), updated_at: now.toISOString() })
+    .in('status', RUNNING_STATUSES)
+    .lt('updated_at', cutoff)
+  if (id) stale = stale.eq('id', id)
+  const { data: failed, error } = await stale.select('id, webhook_url')
+  if (error) {
+    console.error('[jobs] stale sweep failed:', error)
+    return []
+  }
+  if (failed && failed.length > 0) console.warn(`[jobs] ${failed.length} stale job(s) marked as failed`)
+
+  const webhooks = (failed || []).filter(row => row.webhook_url).map(row => row.id as string)
+  if (!id) {
+    const { data: pending } = await supabase
+      .from('analysis_jobs')
+      .select('id')
+      .in('status', ['done', 'failed'])
+      .eq('webhook_status', 'pending')
+      .lt('finished_at', cutoff)
+    webhooks.push(...(pending || []).map(row => row.id as string).filter(pendingId => !webhooks.includes(pendingId)))
+  }
+  for (const jobId of webhooks) await deliverWebhook(jobId)
+
+  return (failed || []).map(row => row.id as string)
+}
+
+async function updateJob(id: string, fields: Record<string, unknown>) {
+  const supabase = createServerSupabase()
+  const { error } = await supabase
+    .from('analysis_jobs')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', id)
+  if (error) console.error(`[jobs] update ${id} failed:`, error)
+}
+
+/**
+ * Execute a queued job. Safe to call more than once: only the first caller
+ * claims the row (started_at is set atomically).
+ */
+export async function runJob(id: string): Promise<void> {
+  const supabase = createServerSupabase()
+  const { data: job } = await supabase
+    .from('analysis_jobs')
+    .update({ started_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'queued')
+    .is('started_at', null)
+    .select('id, input_type, content, force')
+    .maybeSingle()
+
+  if (!job) {
+    console.warn(`[jobs] ${id} not found or already claimed`)
+    return
+  }
+
+  const onStage = (stage: AnalysisStage) => updateJob(id, { status: stage, progress: STATUS_PROGRESS[stage] })
+
+  try {
+    const outcome = await runAnalysis({ inputType: job.input_type, content: job.content || '', force: job.force }, { onStage })
+
+    if (outcome.ok) {
+      await updateJob(id, {
+        status: 'done',
+        progress: 100,
+        result: outcome.result,
+        analysis_id: outcome.result.resultId || null,
+        content: null,
+        finished_at: new Date().toISOString(),
+      })
+    } else {
+      await updateJob(id, {
+        status: 'failed',
+        progress: 100,
+        error_code: outcome.error,
+        error_message: outcome.message,
+        content: null,
+        finished_at: new Date().toISOString(),
+      })
+    }
+  } catch (err) {
+    console.error(`[jobs] ${id} failed:`, err)
+    await updateJob(id, {
+      status: 'failed',
+      progress: 100,
+      error_code: 'ANALYZE_FAILED',
+      error_message: 'Falha ao analisar no servidor. Tente novamente.',
+      content: null,
+      finished_at: new Date().toISOString(),
+    })
+  }
+
+  await deliverWebhook(id)
+}
+
+/**
+ * Start a job without waiting for it (see module comment for the modes).
+ */
+export async function dispatchJob(id: string): Promise<void> {
+  if (DISPATCH_MODE !== 'http') {
+    runJob(id).catch(err => console.error(`[jobs] inline run ${id} crashed:`, err))
+    return
+  }
+
+  if (!isTokenSecretConfigured()) throw new Error('job dispatch requires UNSUB_SECRET or TOKEN_SECRET')
+  const token = createSignedToken({ purpose: 'job-run', jobId: id }, STALE_AFTER_MS)
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), DISPATCH_WAIT_MS)
+
+  try {
+    await fetch(`${DISPATCH_BASE}/api/jobs/${id}/run`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      signal: controller.signal,
+    })
+  } catch (err: any) {
+    // Abort = the run request is in flight and keeps going on its own invocation
+    if (err?.name !== 'AbortError') {
+      console.error(`[jobs] http dispatch of ${id} failed, running inline:`, err)
+      runJob(id).catch(e => console.error(`[jobs] inline run ${id} crashed:`, e))
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * `X-FNV-Signature` value: `t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  if (!secret) throw new Error('webhook signing requires the job secret')
+  const sig = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${sig}`
+}
+
+async function deliverWebhook(id: string): Promise<void> {
+  const supabase = createServerSupabase()
+  const { data: row } = await supabase
+    .from('analysis_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!row?.webhook_url || !row.webhook_secret) return
+
+  const job = toView(row)
+  const event = job.status === 'done' ? 'job.completed' : 'job.failed'
+  const body = JSON.stringify({ event, job })
+
+  let attempts = row.webhook_attempts || 0
+  for (const delay of WEBHOOK_RETRY_DELAYS_MS) {
+    if (delay) await new Promise(r => setTimeout(r, delay))
+    attempts++
+
+    const timestamp = Math.floor(Date.now() / 1000)
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS)
+    try {
+      const res = await safeFetch(row.webhook_url, {
+        method: 'POST',
+        body,
+        signal: controller.signal,
+        maxRedirects: 0,
+        maxBytes: 64 * 1024,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'FakeNewsVerificaTon-Webhook/1.0',
+          'X-FNV-Event': event,
+          'X-FNV-Job-Id': id,
+          'X-FNV-Signature': signWebhookPayload(row.webhook_secret, timestamp, body),
+        },
+      })
+      if (res.ok) {
+        await updateJob(id, { webhook_status: 'delivered', webhook_attempts: attempts })
+        return
+      }
+      console.warn(`[jobs] webhook ${id} attempt ${attempts}: HTTP ${res.status}`)
+    } catch (err: any) {
+      console.warn(`[jobs] webhook ${id} attempt ${attempts}: ${err?.message || err}`)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  await updateJob(id, { webhook_status: 'failed', webhook_attempts: attempts })
+}
@@ -0,0 +1,327 @@
+import { z } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import {
+  alertsSuggestSchema,
+  analyzeJobSchema,
+  analyzeSchema,
+  apiKeyCreateSchema,
+  batchSchema,
+  whatsappExportSchema,
+  subscribeCancelSchema,
+  subscribeSchema,
+} from './validations'
+import {
+  API_ERROR_CODES,
+  analysisProgressSchema,
+  analyzeResponseSchema,
+  apiErrorSchema,
+  apiKeyCreateResponseSchema,
+  apiKeyListResponseSchema,
+  batchResponseSchema,
+  jobCreateResponseSchema,
+  jobResponseSchema,
+  jobWebhookPayloadSchema,
+  okMessageSchema,
+  whatsappExportResponseSchema,
+  type ApiErrorCode,
+} from './validations/responses'
+import { APP_URL } from './urls'
+
+/**
+ * OpenAPI 3.1 document for the public API, generated from the Zod schemas
+ * in lib/validations so the spec cannot drift from what the routes accept.
+ * Served at /api/v1/openapi.json — bump API_VERSION on breaking changes.
+ */
+
+export const API_VERSION = '1.0.0'
+
+type JsonSchema = Record<string, unknown>
+
+/**
+ * Zod → JSON Schema (2020-12 compatible), inlined, without the $schema marker.
+ * Plain z.object() strips unknown keys instead of rejecting them, so only
+ * .strict() objects get `additionalProperties: false`.
+ */
+function toSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { $schema: _ignored, ...json } = zodToJsonSchema(schema, { $refStrategy: 'none', removeAdditionalStrategy: 'strict' }) as JsonSchema
+  return json
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+const jsonBody = (name: string) => ({
+  required: true,
+  content: { 'application/json': { schema: ref(name) } },
+})
+
+const rateLimitHeaders = {
+  'X-RateLimit-Limit': { $ref: '#/components/headers/X-RateLimit-Limit' },
+  'X-RateLimit-Remaining': { $ref: '#/components/headers/X-RateLimit-Remaining' },
+  'X-RateLimit-Reset': { $ref: '#/components/headers/X-RateLimit-Reset' },
+}
+
+function ok(description: string, schemaName: string, headers?: Record<string, unknown>) {
+  return { description, ...(headers ? { headers } : {}), content: { 'application/json': { schema: ref(schemaName) } } }
+}
+
+/**
+ * Error responses grouped by HTTP status, listing which codes each status can carry.
+ */
+function errors(codes: ApiErrorCode[], headers?: Record<string, unknown>) {
+  const byStatus = new Map<number, ApiErrorCode[]>()
+  for (const code of codes) {
+    const status = API_ERROR_CODES[code].status
+    byStatus.set(status, [...(byStatus.get(status) || []), code])
+  }
+
+  const responses: Record<string, unknown> = {}
+  for (const [status, list] of Array.from(byStatus.entries()).sort((a, b) => a[0] - b[0])) {
+    responses[String(status)] = {
+      description: list.map(c => `\`${c}\` — ${API_ERROR_CODES[c].description}`).join('\n\n'),
+      ...(headers ? { headers } : {}),
+      content: { 'application/json': { schema: ref('ApiError') } },
+    }
+  }
+  return responses
+}
+
+export function buildOpenApiDocument() {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Fake News VerificaTon API',
+      version: API_VERSION,
+      description: [
+        'AI-assisted analysis of texts, links, images and audio for misinformation signals.',
+        '',
+        'Programmatic callers authenticate with an API key issued at `/dashboard` (`Authorization: Bearer fnv_live_…`). ',
+        'Browser callers send a Cloudflare Turnstile token as `turnstileToken` instead.',
+        '',
+        'Every error response has the shape `{ ok: false, error, message }` where `error` is one of the codes in the `ApiError` schema.',
+      ].join('\n'),
+      license: { name: 'Proprietary' },
+    },
+    servers: [{ url: APP_URL }],
+    tags: [
+      { name: 'Analysis' },
+      { name: 'Subscriptions' },
+      { name: 'Alerts' },
+      { name: 'API keys' },
+    ],
+    paths: {
+      '/api/check': {
+        post: {
+          tags: ['Analysis'],
+          operationId: 'analyze',
+          summary: 'Analyze content',
+          description: [
+            'Runs the analysis pipeline (or returns a cached result for identical / near-duplicate content).',
+            '',
+            'With `Accept: text/event-stream` the response is a Server-Sent Events stream: `progress` events ',
+            '(`AnalysisProgressEvent`), then one `result` event (`AnalyzeResponse`) or `error` event (`ApiError`). ',
+            'Errors detected before the analysis starts are still plain JSON with the status codes below.',
+          ].join('\n'),
+          security: [{ apiKey: [] }, {}],
+          requestBody: jsonBody('AnalyzeRequest'),
+          responses: {
+            200: {
+              ...ok('Analysis result (JSON), or an event stream when requested.', 'AnalyzeResponse', rateLimitHeaders),
+              content: {
+                'application/json': { schema: ref('AnalyzeResponse') },
+                'text/event-stream': { schema: { type: 'string', description: '`event: progress|result|error` frames with JSON `data`.' } },
+              },
+            },
+            ...errors([
+              'VALIDATION', 'AUTH_REQUIRED', 'INVALID_API_KEY', 'CAPTCHA_REQUIRED', 'CAPTCHA_FAILED',
+              'EXTRACTION_FAILED', 'UNSUPPORTED_INPUT', 'RATE_LIMITED', 'QUOTA_EXCEEDED', 'ANALYZE_FAILED', 'SERVER_MISCONFIG',
+            ], { ...rateLimitHeaders, 'Retry-After': { $ref: '#/components/headers/Retry-After' } }),
+          },
+        },
+      },
+      '/api/batch': {
+        post: {
+          tags: ['Analysis'],
+          operationId: 'analyzeBatch',
+          summary: 'Analyze up to 25 texts or links, or a WhatsApp chat export, in one request',
+          description: [
+            'Items are deduplicated by fingerprint (exact URL, normalized text) and analyzed with bounded concurrency. ',
+            'Each unique item costs one request of the API key quota. Every item gets its own result or error; ',
+            'duplicates carry `duplicateOf` and share the first occurrence\'s result. ',
+            'With `inputType: "whatsapp_export"` the body carries an exported chat (.txt text or .zip data URL); ',
+            'forwarded-looking messages and shared links are picked (up to 25, most shared first) and returned ranked by risk.',
+          ].join(''),
+          security: [{ apiKey: [] }, { session: [] }],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { oneOf: [ref('BatchRequest'), ref('WhatsAppExportRequest')] } } },
+          },
+          responses: {
+            200: {
+              description: 'Per-item results in request order, or ranked per-message results for a chat export.',
+              headers: rateLimitHeaders,
+              content: { 'application/json': { schema: { oneOf: [ref('BatchResponse'), ref('WhatsAppExportResponse')] } } },
+            },
+            ...errors([
+              'VALIDATION', 'AUTH_REQUIRED', 'INVALID_API_KEY', 'EXTRACTION_FAILED', 'RATE_LIMITED', 'QUOTA_EXCEEDED', 'INTERNAL', 'SERVER_MISCONFIG',
+            ], { ...rateLimitHeaders, 'Retry-After': { $ref: '#/components/headers/Retry-After' } }),
+          },
+        },
+      },
+      '/api/jobs': {
+        post: {
+          tags: ['Analysis'],
+          operationId: 'createAnalysisJob',
+          summary: 'Queue an analysis (asynchronous)',
+          description: [
+            'Same input as `/api/check`, but returns `202` immediately with a job id. ',
+            'Poll `GET /api/jobs/{id}` or, with an API key, pass `webhookUrl` to receive a POST when the job finishes. ',
+            'Webhook requests carry `X-FNV-Event`, `X-FNV-Job-Id` and `X-FNV-Signature: t=<unix>,v1=<hex>`, where ',
+            '`v1 = HMAC-SHA256(webhookSecret, "<t>.<raw body>")`. The body follows the `JobWebhookPayload` schema.',
+          ].join(''),
+          security: [{ apiKey: [] }, {}],
+          requestBody: jsonBody('AnalyzeJobRequest'),
+          responses: {
+            202: ok('Job queued.', 'JobCreateResponse', rateLimitHeaders),
+            ...errors([
+              'VALIDATION', 'AUTH_REQUIRED', 'INVALID_API_KEY', 'CAPTCHA_REQUIRED', 'CAPTCHA_FAILED',
+              'RATE_LIMITED', 'QUOTA_EXCEEDED', 'INTERNAL', 'SERVER_MISCONFIG',
+            ], { ...rateLimitHeaders, 'Retry-After': { $ref: '#/components/headers/Retry-After' } }),
+          },
+        },
+      },
+      '/api/jobs/{id}': {
+        get: {
+          tags: ['Analysis'],
+          operationId: 'getAnalysisJob',
+          summary: 'Job status and progress (result included when done)',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+          responses: {
+            200: ok('Current job state. Failed jobs carry `error` with one of the codes below.', 'JobResponse'),
+            ...errors(['VALIDATION', 'NOT_FOUND', 'INTERNAL']),
+          },
+        },
+      },
+      '/api/subscribe': {
+        post: {
+          tags: ['Subscriptions'],
+          operationId: 'subscribe',
+          summary: 'Subscribe to alerts (sends a double opt-in e-mail)',
+          requestBody: jsonBody('SubscribeRequest'),
+          responses: {
+            200: ok('Confirmation e-mail sent (or existing subscription updated).', 'OkMessage'),
+            ...errors(['VALIDATION', 'CAPTCHA_REQUIRED', 'CAPTCHA_FAILED', 'RATE_LIMITED', 'INTERNAL']),
+          },
+        },
+      },
+      '/api/subscribe/cancel': {
+        post: {
+          tags: ['Subscriptions'],
+          operationId: 'cancelSubscription',
+          summary: 'Request subscription cancellation (sends a confirmation e-mail)',
+          requestBody: jsonBody('SubscribeCancelRequest'),
+          responses: {
+            200: ok('Always succeeds to avoid e-mail enumeration.', 'OkMessage'),
+            ...errors(['VALIDATION', 'CAPTCHA_REQUIRED', 'CAPTCHA_FAILED', 'RATE_LIMITED', 'INTERNAL']),
+          },
+        },
+      },
+      '/api/alerts/suggest': {
+        post: {
+          tags: ['Alerts'],
+          operationId: 'suggestAlert',
+          summary: 'Suggest a hoax for the alerts page',
+          requestBody: jsonBody('AlertsSuggestRequest'),
+          responses: {
+            200: ok('Suggestion stored.', 'OkMessage'),
+            ...errors(['VALIDATION', 'CAPTCHA_REQUIRED', 'CAPTCHA_FAILED', 'RATE_LIMITED', 'DB_ERROR', 'INTERNAL']),
+          },
+        },
+      },
+      '/api/keys': {
+        get: {
+          tags: ['API keys'],
+          operationId: 'listApiKeys',
+          summary: "List the logged-in user's API keys with usage",
+          security: [{ session: [] }],
+          responses: {
+            200: ok('Keys, active first.', 'ApiKeyListResponse'),
+            ...errors(['AUTH_REQUIRED', 'INTERNAL']),
+          },
+        },
+        post: {
+          tags: ['API keys'],
+          operationId: 'createApiKey',
+          summary: 'Issue a new API key',
+          security: [{ session: [] }],
+          requestBody: jsonBody('ApiKeyCreateRequest'),
+          responses: {
+            200: ok('The plaintext key is only returned here.', 'ApiKeyCreateResponse'),
+            ...errors(['VALIDATION', 'AUTH_REQUIRED', 'KEY_LIMIT', 'API_KEY_ERROR', 'INTERNAL']),
+          },
+        },
+      },
+      '/api/keys/{id}': {
+        delete: {
+          tags: ['API keys'],
+          operationId: 'revokeApiKey',
+          summary: 'Revoke an API key',
+          security: [{ session: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string', format: 'uuid' } }],
+          responses: {
+            200: ok('Key revoked.', 'OkMessage'),
+            ...errors(['VALIDATION', 'AUTH_REQUIRED', 'NOT_FOUND', 'API_KEY_ERROR', 'INTERNAL']),
+          },
+        },
+      },
+    },
+    webhooks: {
+      jobFinished: {
+        post: {
+          summary: 'Job finished (sent to the `webhookUrl` given to POST /api/jobs)',
+          parameters: [
+            { name: 'X-FNV-Event', in: 'header', required: true, schema: { type: 'string', enum: ['job.completed', 'job.failed'] } },
+            { name: 'X-FNV-Job-Id', in: 'header', required: true, schema: { type: 'string', format: 'uuid' } },
+            { name: 'X-FNV-Signature', in: 'header', required: true, description: '`t=<unix>,v1=<hex HMAC-SHA256(webhookSecret, "<t>.<raw body>")>`', schema: { type: 'string' } },
+          ],
+          requestBody: jsonBody('JobWebhookPayload'),
+          responses: {
+            '2XX': { description: 'Delivered. Any other status (or no answer in 10 s) is retried up to 3 times.' },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        AnalyzeRequest: toSchema(analyzeSchema),
+        AnalyzeResponse: toSchema(analyzeResponseSchema),
+        AnalysisProgressEvent: toSchema(analysisProgressSchema),
+        BatchRequest: toSchema(batchSchema),
+        BatchResponse: toSchema(batchResponseSchema),
+        WhatsAppExportRequest: toSchema(whatsappExportSchema),
+        WhatsAppExportResponse: toSchema(whatsappExportResponseSchema),
+        AnalyzeJobRequest: toSchema(analyzeJobSchema),
+        JobCreateResponse: toSchema(jobCreateResponseSchema),
+        JobResponse: toSchema(jobResponseSchema),
+        JobWebhookPayload: toSchema(jobWebhookPayloadSchema),
+        SubscribeRequest: toSchema(subscribeSchema),
+        SubscribeCancelRequest: toSchema(subscribeCancelSchema),
+        AlertsSuggestRequest: toSchema(alertsSuggestSchema),
+        ApiKeyCreateRequest: toSchema(apiKeyCreateSchema),
+        ApiKeyCreateResponse: toSchema(apiKeyCreateResponseSchema),
+        ApiKeyListResponse: toSchema(apiKeyListResponseSchema),
+        OkMessage: toSchema(okMessageSchema),
+        ApiError: toSchema(apiErrorSchema),
+      },
+      headers: {
+        'X-RateLimit-Limit': { description: 'Requests allowed in the current window (API key quota or per-IP limit).', schema: { type: 'integer' } },
+        'X-RateLimit-Remaining': { description: 'Requests left in the current window.', schema: { type: 'integer' } },
+        'X-RateLimit-Reset': { description: 'Window reset time (Unix epoch seconds).', schema: { type: 'integer' } },
+        'Retry-After': { description: 'Seconds to wait before retrying (429 only).', schema: { type: 'integer' } },
+      },
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'Per-user API key (`fnv_live_…`) issued at /dashboard.' },
+        session: { type: 'apiKey', in: 'cookie', name: 'sb-<project-ref>-auth-token', description: 'Supabase session cookie (browser only).' },
+      },
+    },
+  }
+}
@@ -0,0 +1,94 @@
+import crypto from 'crypto'
+
+/**
+ * Prompt-injection defense for third-party content (web pages, transcripts,
+ * OCR text, posts, document and video metadata).
+ *
+ * Content goes to the model inside delimited untrusted blocks, which the
+ * system prompt declares to be data, never instructions. Independently of
+ * what the model does, phrases addressed to an AI are detected here: the
+ * pipeline then warns about them and raises manipulationRisk.
+ *
+ * Regression fixtures: lib/__fixtures__/prompt-injection/ (run with
+ * npm run test:injection, against the fake provider).
+ */
+
+/** Minimum manipulationRisk of content with injection attempts (+10 per extra kind, up to 95) */
+export const INJECTION_MIN_MANIPULATION_RISK = 70
+
+const BLOCK_TAG = 'UNTRUSTED_CONTENT'
+
+/** Anything that looks like our delimiters, so content cannot close its block early */
+const DELIMITER_REGEX = /<<<\s*\/?\s*(?:END_)?UNTRUSTED[^>\n]*>*/gi
+
+const INJECTION_PATTERNS: { label: string; regex: RegExp }[] = [
+  {
+    label: 'ordem para ignorar instruções anteriores',
+    regex: /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,30}\b(?:previous|prior|above|earlier|all|system|your)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules|guidelines)\b/i,
+  },
+  {
+    label: 'ordem para ignorar instruções anteriores',
+    regex: /\b(?:ignor|desconsider|esque[cç])\w*\s+(?:todas\s+)?(?:as\s+|suas\s+)?(?:instru[cç][õo]es|regras|orienta[cç][õo]es|comandos)\s+(?:anteriores|acima|pr[eé]vias|do sistema|originais|recebidas)\b|\b(?:ignor|desconsider|esque[cç])\w*\s+todas\s+as\s+(?:instru[cç][õo]es|regras)\b/i,
+  },
+  {
+    label: 'redefinição do papel da IA',
+    // (no \b after "ê"/"é": accented letters are not word characters)
+    regex: /\b(?:you are now|from now on,? you|pretend (?:to be|you are)|finja (?:ser|que))\b|\b(?:voc[eê] agora [eé]|a partir de agora,? voc[eê])(?=[\s,.]|$)/i,
+  },
+  {
+    label: 'mensagem dirigida à IA',
+    regex: /\b(?:note|message|instructions?) (?:to|for) (?:the |any )?(?:AI|LLM|assistant|language model|fact[- ]checker bot)\b|\b(?:nota|mensagem|recado|instru[cç][õo]es|aviso) (?:para|à|ao) (?:a |o )?(?:IA|intelig[eê]ncia artificial|assistente|rob[oô] checador)\b/i,
+  },
+  {
+    label: 'menção ao prompt do sistema',
+    regex: /\b(?:system prompt|prompt do sistema|developer mode|modo desenvolvedor|jailbreak)\b/i,
+  },
+  {
+    label: 'pedido de veredito ou score',
+    regex: /\b(?:return|output|respond|answer|set|classify|mark|rate|retorne|responda|classifique|marque|defina|atribua|avalie)\b[^.\n]{0,40}\b(?:verdict|veredito|fakeProbability|manipulationRisk|verifiableTruth)\b/i,
+  },
+  {
+    label: 'marcação de conversa com IA',
+    regex: /<\|?\/?(?:system|assistant|im_start|im_end)\|?>|\[\/?(?:INST|SYS)\]|^\s*(?:system|assistant)\s*:/im,
+  },
+  {
+    label: 'resposta JSON embutida',
+    regex: /"(?:fakeProbability|manipulationRisk|verifiableTruth|biasFraming)"\s*:/,
+  },
+  {
+    label: 'delimitador falsificado',
+    regex: DELIMITER_REGEX,
+  },
+]
+
+/**
+ * Kinds of injection attempt found in `text` (pt-BR labels, no repetitions).
+ */
+export function detectPromptInjection(text: string): string[] {
+  if (!text) return []
+  const found = new Set<string>()
+  for (const { label, regex } of INJECTION_PATTERNS) {
+    regex.lastIndex = 0
+    if (regex.test(text)) found.add(label)
+  }
+  return Array.from(found)
+}
+
+/**
+ * manipulationRisk after detecting `kinds` injection attempts.
+ */
+export function raiseManipulationRisk(current: number, kinds: number): number {
+  if (kinds === 0) return current
+  return Math.max(current, Math.min(95, INJECTION_MIN_MANIPULATION_RISK + 10 * (kinds - 1)))
+}
+
+/**
+ * Wrap third-party text in an untrusted block. The block id is derived from
+ * the content (stable prompts for the cache and the fake provider), and
+ * delimiter look-alikes inside the text are neutralized.
+ */
+export function wrapUntrusted(source: string, text: string): string {
+  const cleaned = text.replace(DELIMITER_REGEX, '[delimitador removido]')
+  const id = crypto.createHash('sha256').update(cleaned).digest('hex').slice(0, 12)
+  return `<<<${BLOCK_TAG} id=${id} source="${source}">>>\n${cleaned}\n<<<END_${BLOCK_TAG} id=${id}>>>`
+}
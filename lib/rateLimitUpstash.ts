@@ -10,7 +10,18 @@ import 'server-only'
 const UPSTASH_URL = process.env.UPSTASH_REDIS_REST_URL || ''
 const UPSTASH_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN || ''
 
-let rateLimiter: { limit: (identifier: string) => Promise<{ success: boolean; remaining: number; reset: number }> } | null = null
+type Limiter = { limit: (identifier: string, opts?: { rate?: number }) => Promise<{ success: boolean; limit: number; remaining: number; reset: number }> }
+
+export interface RateLimitResult {
+  allowed: boolean
+  /** Max requests in the current window */
+  limit: number
+  remaining: number
+  /** Window reset time (ms since epoch) */
+  reset: number
+}
+
+let rateLimiter: Limiter | null = null
 
 async function getUpstashLimiter() {
   if (rateLimiter) return rateLimiter
@@ -51,40 +62,158 @@ setInterval(() => {
   }
 }, 300_000)
 
-function inMemoryCheck(ip: string): { allowed: boolean; remaining: number } {
+function inMemoryCheck(ip: string): RateLimitResult {
   const now = Date.now()
   const timestamps = (hits.get(ip) || []).filter(t => now - t < windowMs)
 
   if (timestamps.length >= maxRequests) {
     hits.set(ip, timestamps)
-    return { allowed: false, remaining: 0 }
+    return { allowed: false, limit: maxRequests, remaining: 0, reset: timestamps[0] + windowMs }
   }
 
   timestamps.push(now)
   hits.set(ip, timestamps)
-  return { allowed: true, remaining: maxRequests - timestamps.length }
+  return { allowed: true, limit: maxRequests, remaining: maxRequests - timestamps.length, reset: timestamps[0] + windowMs }
 }
 
 /**
  * Check rate limit for an identifier (usually IP).
  * Uses Upstash Redis if configured, otherwise in-memory.
  */
-export async function checkRateLimitAsync(identifier: string): Promise<{ allowed: boolean; remaining: number }> {
+export async function checkRateLimitAsync(identifier: string): Promise<RateLimitResult> {
   const limiter = await getUpstashLimiter()
 
   if (limiter) {
     const result = await limiter.limit(identifier)
-    return { allowed: result.success, remaining: result.remaining }
+    return { allowed: result.success, limit: result.limit, remaining: result.remaining, reset: result.reset }
   }
 
   return inMemoryCheck(identifier)
 }
 
+// ── Quotas (calendar windows in UTC, per API key) ──
+
+export type QuotaWindow = 'day' | 'month'
+
+export interface Quota {
+  limit: number
+  window: QuotaWindow
+}
+
+export interface QuotasResult {
+  allowed: boolean
+  /** Window that ran out (only when not allowed) */
+  exceeded?: QuotaWindow
+  /** One result per quota, in the order given */
+  rates: RateLimitResult[]
+}
+
+/**
+ * Checks every quota and charges all of them only when all allow `cost`
+ * (atomic in Redis). KEYS: one counter per quota; ARGV: cost, then limit and
+ * reset (ms) of each quota. Returns the 1-based index of the quota that ran
+ * out (0 when charged) followed by the counters.
+ */
+const QUOTA_SCRIPT = `
+local cost = tonumber(ARGV[1])
+local counts = {}
+for i, key in ipairs(KEYS) do
+  counts[i] = tonumber(redis.call('GET', key) or '0')
+  if counts[i] + cost > tonumber(ARGV[i * 2]) then
+    table.insert(counts, 1, i)
+    return counts
+  end
+end
+for i, key in ipairs(KEYS) do
+  counts[i] = redis.call('INCRBY', key, cost)
+  redis.call('PEXPIREAT', key, ARGV[i * 2 + 1])
+end
+table.insert(counts, 1, 0)
+return counts
+`
+
+let quotaRedis: { eval: (script: string, keys: string[], args: unknown[]) => Promise<unknown> } | null = null
+const quotaMemory = new Map<string, { count: number; reset: number }>()
+
+async function getQuotaRedis() {
+  if (quotaRedis) return quotaRedis
+  if (!UPSTASH_URL || !UPSTASH_TOKEN) return null
+
+  const { Redis } = await import('@upstash/redis')
+  quotaRedis = new Redis({ url: UPSTASH_URL, token: UPSTASH_TOKEN })
+  return quotaRedis
+}
+
+/** Current window of a quota: its id (2026-10-19, 2026-10) and when it resets */
+function quotaPeriod(window: QuotaWindow, now = new Date()): { id: string; reset: number } {
+  const iso = now.toISOString()
+  return window === 'day'
+    ? { id: iso.slice(0, 10), reset: Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) }
+    : { id: iso.slice(0, 7), reset: Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1) }
+}
+
+function inMemoryQuotas(keys: string[], quotas: Quota[], resets: number[], cost: number): number[] {
+  const now = Date.now()
+  for (const [key, entry] of quotaMemory) if (now >= entry.reset) quotaMemory.delete(key)
+
+  const counts: number[] = []
+  for (let i = 0; i < keys.length; i++) {
+    counts.push(quotaMemory.get(keys[i])?.count ?? 0)
+    if (counts[i] + cost > quotas[i].limit) return [i + 1, ...counts]
+  }
+  keys.forEach((key, i) => {
+    counts[i] += cost
+    quotaMemory.set(key, { count: counts[i], reset: resets[i] })
+  })
+  return [0, ...counts]
+}
+
+/**
+ * Consume `cost` requests (default one) from several calendar-window quotas
+ * of an identifier (e.g. 100/day and 2000/month for an API key). Nothing is
+ * charged when any of them would run out. Windows are UTC days and months,
+ * the same periods as the usage counters. Uses Upstash Redis if configured,
+ * otherwise in-memory.
+ */
+export async function checkQuotasAsync(identifier: string, quotas: Quota[], cost = 1): Promise<QuotasResult> {
+  const periods = quotas.map(q => quotaPeriod(q.window))
+  const keys = quotas.map((q, i) => `fnv:quota:${q.window}:${periods[i].id}:${identifier}`)
+  const resets = periods.map(p => p.reset)
+
+  const redis = await getQuotaRedis()
+  const [exceeded, ...counts] = redis
+    ? ((await redis.eval(QUOTA_SCRIPT, keys, [cost, ...quotas.flatMap((q, i) => [q.limit, resets[i]])])) as number[]).map(Number)
+    : inMemoryQuotas(keys, quotas, resets, cost)
+
+  const rates = quotas.map((q, i) => {
+    const count = counts[i] ?? 0
+    return { allowed: exceeded === 0, limit: q.limit, remaining: q.limit - count, reset: resets[i] }
+  })
+  return exceeded === 0 ? { allowed: true, rates } : { allowed: false, exceeded: quotas[exceeded - 1].window, rates }
+}
+
+/**
+ * Consume `cost` requests from a single calendar-window quota (see checkQuotasAsync).
+ */
+export async function checkQuotaAsync(identifier: string, limit: number, window: QuotaWindow, cost = 1): Promise<RateLimitResult> {
+  const { rates } = await checkQuotasAsync(identifier, [{ limit, window }], cost)
+  return rates[0]
+}
+
+/** Standard X-RateLimit-* response headers (reset in epoch seconds) */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(Math.max(0, result.remaining)),
+    'X-RateLimit-Reset': String(Math.ceil(result.reset / 1000)),
+  }
+}
+
 /**
  * Synchronous check (in-memory only).
  * Kept for backwards compatibility.
  * @deprecated Use checkRateLimitAsync instead.
  */
-export function checkRateLimit(ip: string): { allowed: boolean; remaining: number } {
+export function checkRateLimit(ip: string): RateLimitResult {
   return inMemoryCheck(ip)
 }
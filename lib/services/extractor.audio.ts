@@ -1,23 +1,11 @@
 import 'server-only'
+import { getTranscribers, TranscriptionError, type AudioInput } from './transcription'
 
 /**
- * Audio extractor using Whisper-SRT Portal API.
- * Uploads audio → polls until done → downloads .srt → converts to text.
- *
- * Auth strategy:
- *   1. JWT login (WHISPER_EMAIL + WHISPER_PASSWORD) — works on all endpoints
- *   2. API Key (WHISPER_SRT_API_KEY) — fallback, requires patched whisper-srt
- *
- * API: https://frontend-beryl-gamma-80.vercel.app
+ * Audio extractor: data-URL → transcriber (Whisper-SRT Portal or local
+ * Whisper, see transcription.ts) → .srt → segments and plain text.
  */
 
-const WHISPER_API_BASE = 'https://frontend-beryl-gamma-80.vercel.app'
-const MAX_POLL_ATTEMPTS = 60       // 60 × 3s = 180s máximo de espera
-const POLL_INTERVAL_MS  = 3_000    // 3 segundos entre checks
-
-// Cache JWT token in memory (valid for 8h by default)
-let cachedJwt: { token: string; expiresAt: number } | null = null
-
 export interface AudioExtractionResult {
   ok: boolean
   text?: string          // Transcrição como texto corrido
@@ -37,7 +25,7 @@ export interface SrtSegment {
 /**
  * Converte um data-URL de áudio (base64) em Buffer + mimeType.
  */
-function parseAudioDataUrl(dataUrl: string): { buffer: Buffer; mimeType: string; extension: string } | null {
+function parseAudioDataUrl(dataUrl: string): AudioInput | null {
   const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/s)
   if (!match) return null
 
@@ -104,75 +92,22 @@ function segmentsToText(segments: SrtSegment[]): string {
 }
 
 /**
- * Obtém headers de autenticação para a API Whisper-SRT.
- * Prioridade: JWT login > API Key
- */
-async function getAuthHeaders(): Promise<Record<string, string>> {
-  const email = process.env.WHISPER_EMAIL
-  const password = process.env.WHISPER_PASSWORD
-  const apiKey = process.env.WHISPER_SRT_API_KEY
-
-  // 1. Tentar JWT login
-  if (email && password) {
-    // Usar cache se ainda válido (com margem de 5 min)
-    if (cachedJwt && Date.now() < cachedJwt.expiresAt - 300_000) {
-      return { 'Authorization': `Bearer ${cachedJwt.token}` }
-    }
-
-    try {
-      console.log('[extractor.audio] Logging in via JWT...')
-      const loginRes = await fetch(`${WHISPER_API_BASE}/api/auth/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password }),
-      })
-
-      if (loginRes.ok) {
-        const data = await loginRes.json() as { access_token: string }
-        // Cache for 7 hours (default expiry is 8h)
-        cachedJwt = {
-          token: data.access_token,
-          expiresAt: Date.now() + 7 * 60 * 60 * 1000,
-        }
-        console.log('[extractor.audio] JWT obtained successfully')
-        return { 'Authorization': `Bearer ${data.access_token}` }
-      } else {
-        console.warn(`[extractor.audio] JWT login failed (${loginRes.status}), trying API key...`)
-      }
-    } catch (err) {
-      console.warn('[extractor.audio] JWT login error, trying API key...', err)
-    }
-  }
-
-  // 2. Fallback: API Key
-  if (apiKey) {
-    return { 'X-API-Key': apiKey }
-  }
-
-  throw new Error('Nenhuma credencial configurada para o Whisper-SRT (WHISPER_EMAIL+WHISPER_PASSWORD ou WHISPER_SRT_API_KEY).')
-}
-
-/**
- * Extrai transcrição de um áudio via Whisper-SRT Portal.
+ * Extrai transcrição de um áudio via o transcritor configurado
+ * (TRANSCRIPTION_PROVIDER), tentando o de fallback se o principal falhar.
  * Recebe o conteúdo como data-URL (base64).
  */
 export async function extractAudioTranscript(audioDataUrl: string): Promise<AudioExtractionResult> {
-  // Verificar se há alguma credencial configurada
-  const hasJwt = process.env.WHISPER_EMAIL && process.env.WHISPER_PASSWORD
-  const hasApiKey = process.env.WHISPER_SRT_API_KEY
-
-  if (!hasJwt && !hasApiKey) {
-    console.error('[extractor.audio] No Whisper-SRT credentials configured')
-    return {
-      ok: false,
-      error: 'Serviço de transcrição de áudio não configurado. Configure WHISPER_EMAIL+WHISPER_PASSWORD ou WHISPER_SRT_API_KEY.',
-      warnings: [],
-    }
+  let transcribers
+  try {
+    transcribers = getTranscribers()
+  } catch (err: any) {
+    console.error(`[extractor.audio] ${err.message}`)
+    return { ok: false, error: err.message, warnings: [] }
   }
 
   // 1. Decodificar data-URL para Buffer
-  const parsed = parseAudioDataUrl(audioDataUrl)
-  if (!parsed) {
+  const audio = parseAudioDataUrl(audioDataUrl)
+  if (!audio) {
     return {
       ok: false,
       error: 'Formato de áudio inválido. Envie um arquivo de áudio válido.',
@@ -180,123 +115,54 @@ export async function extractAudioTranscript(audioDataUrl: string): Promise<Audi
     }
   }
 
-  const { buffer, mimeType, extension } = parsed
-  console.log(`[extractor.audio] Audio: ${mimeType}, ${(buffer.length / 1024).toFixed(0)} KB`)
-
-  try {
-    // Obter headers de autenticação (JWT ou API key)
-    let authHeaders: Record<string, string>
-    try {
-      authHeaders = await getAuthHeaders()
-    } catch (authErr: any) {
-      return { ok: false, error: authErr.message, warnings: [] }
-    }
+  console.log(`[extractor.audio] Audio: ${audio.mimeType}, ${(audio.buffer.length / 1024).toFixed(0)} KB`)
 
-    // 2. Upload para Whisper-SRT API via FormData
-    const formData = new FormData()
-    const uint8 = new Uint8Array(buffer)
-    const blob = new Blob([uint8], { type: mimeType })
-    formData.append('file', blob, `audio.${extension}`)
-    formData.append('language', 'pt')
-    formData.append('model', 'small')
+  // 2. Transcrever (principal, depois fallback)
+  const warnings: string[] = []
+  let srtText: string | null = null
+  let lastError = ''
 
-    console.log(`[extractor.audio] Uploading to Whisper-SRT...`)
-    const uploadRes = await fetch(`${WHISPER_API_BASE}/api/jobs`, {
-      method: 'POST',
-      headers: { ...authHeaders },
-      body: formData,
-    })
-
-    if (!uploadRes.ok) {
-      const errText = await uploadRes.text()
-      console.error(`[extractor.audio] Upload failed (${uploadRes.status}): ${errText}`)
-      return {
-        ok: false,
-        error: `Falha ao enviar áudio para transcrição (${uploadRes.status}).`,
-        warnings: [],
-      }
-    }
-
-    const job = await uploadRes.json() as { id: string; status: string }
-    console.log(`[extractor.audio] Job criado: ${job.id}, status: ${job.status}`)
-
-    // 3. Poll até status != PROCESSING
-    let status = job.status
-    let attempts = 0
-
-    while (status === 'PROCESSING' && attempts < MAX_POLL_ATTEMPTS) {
-      await new Promise(r => setTimeout(r, POLL_INTERVAL_MS))
-      attempts++
-
-      const pollRes = await fetch(`${WHISPER_API_BASE}/api/jobs/${job.id}`, {
-        headers: { ...authHeaders },
-      })
-
-      if (!pollRes.ok) {
-        console.warn(`[extractor.audio] Poll failed (${pollRes.status}), retrying...`)
-        continue
-      }
-
-      const pollData = await pollRes.json() as { status: string }
-      status = pollData.status
-      console.log(`[extractor.audio] Poll #${attempts}: ${status}`)
-    }
-
-    if (status !== 'DONE') {
-      const reason = attempts >= MAX_POLL_ATTEMPTS
-        ? 'Tempo esgotado aguardando transcrição.'
-        : `Transcrição falhou (status: ${status}).`
-      console.error(`[extractor.audio] ${reason}`)
-      return { ok: false, error: reason, warnings: [] }
+  for (const [i, transcriber] of transcribers.entries()) {
+    try {
+      srtText = await transcriber.transcribe(audio)
+      if (i > 0) warnings.push(`Transcrição feita por ${transcriber.label} (${transcribers[0].label} indisponível).`)
+      break
+    } catch (err: any) {
+      console.error(`[extractor.audio] ${transcriber.label} failed:`, err)
+      lastError = err instanceof TranscriptionError
+        ? err.message
+        : `Erro ao transcrever áudio: ${err?.message || 'erro desconhecido'}`
     }
+  }
 
-    // 4. Download do .srt
-    console.log(`[extractor.audio] Downloading SRT...`)
-    const downloadRes = await fetch(`${WHISPER_API_BASE}/api/jobs/${job.id}/download`, {
-      headers: { ...authHeaders },
-    })
-
-    if (!downloadRes.ok) {
-      console.error(`[extractor.audio] Download failed (${downloadRes.status})`)
-      return {
-        ok: false,
-        error: 'Falha ao baixar a transcrição gerada.',
-        warnings: [],
-      }
-    }
+  if (srtText === null) {
+    return { ok: false, error: lastError, warnings: [] }
+  }
 
-    const srtText = await downloadRes.text()
-    console.log(`[extractor.audio] SRT received: ${srtText.length} chars`)
+  console.log(`[extractor.audio] SRT received: ${srtText.length} chars`)
 
-    // 5. Converter SRT → JSON → texto
-    const segments = srtToJson(srtText)
-    const fullText = segmentsToText(segments)
+  // 3. Converter SRT → JSON → texto
+  const segments = srtToJson(srtText)
+  const fullText = segmentsToText(segments)
 
-    if (!fullText || fullText.length < 5) {
-      return {
-        ok: false,
-        error: 'Transcrição do áudio está vazia ou contém apenas instrumentais.',
-        warnings: ['Nenhuma fala detectada no áudio.'],
-      }
+  if (!fullText || fullText.length < 5) {
+    return {
+      ok: false,
+      error: 'Transcrição do áudio está vazia ou contém apenas instrumentais.',
+      warnings: ['Nenhuma fala detectada no áudio.'],
     }
+  }
 
-    console.log(`[extractor.audio] Transcript: ${fullText.length} chars, ${segments.length} segments`)
+  console.log(`[extractor.audio] Transcript: ${fullText.length} chars, ${segments.length} segments`)
 
-    return {
-      ok: true,
-      text: fullText,
-      segments,
-      warnings: segments.some(s => s.instrumental)
-        ? ['Partes instrumentais (🎵) foram identificadas e removidas da análise.']
-        : [],
-    }
+  if (segments.some(s => s.instrumental)) {
+    warnings.push('Partes instrumentais (🎵) foram identificadas e removidas da análise.')
+  }
 
-  } catch (err: any) {
-    console.error('[extractor.audio] Error:', err)
-    return {
-      ok: false,
-      error: `Erro ao transcrever áudio: ${err.message || 'erro desconhecido'}`,
-      warnings: [],
-    }
+  return {
+    ok: true,
+    text: fullText,
+    segments,
+    warnings,
   }
 }
@@ -0,0 +1,196 @@
+import 'server-only'
+import os from 'os'
+import { createWorker, OEM, type Worker } from 'tesseract.js'
+
+/**
+ * Local OCR for uploaded images (Tesseract compiled to WASM, no external API).
+ *
+ * Most images we receive are screenshots of posts and chats, where the text
+ * is what matters. The recognized lines (with bounding boxes) are sent to the
+ * model alongside the image, stored as the analyzed text, and used to show
+ * which region of the image each claim came from.
+ */
+
+const OCR_LANGS = 'por+eng'
+const OCR_TIMEOUT_MS = 30_000
+/** Lines below this Tesseract confidence are mostly noise (icons, avatars) */
+const MIN_LINE_CONFIDENCE = 40
+const LOW_CONFIDENCE = 65
+const MIN_TEXT_LENGTH = 10
+
+/** Region of the image as fractions (0–1) of its width and height */
+export interface OcrBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface OcrLine {
+  text: string
+  confidence: number
+  box: OcrBox
+  /** Offset of the line in `ImageOcr.text` */
+  start: number
+}
+
+export interface ImageOcr {
+  text: string
+  /** Image size in pixels */
+  width: number
+  height: number
+  /** Mean confidence of the kept lines (0–100) */
+  confidence: number
+  lines: OcrLine[]
+}
+
+export interface OcrResult {
+  ok: boolean
+  ocr?: ImageOcr
+  error?: string
+  warnings: string[]
+}
+
+export function isOcrEnabled(): boolean {
+  return process.env.OCR_ENABLED !== 'false'
+}
+
+/**
+ * Pixel size from the PNG, JPEG, GIF or WebP header (Tesseract does not
+ * report it). Returns null for other formats.
+ */
+export function readImageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const ascii = (from: number, to: number) => String.fromCharCode(...Array.from(bytes.subarray(from, to)))
+
+  // PNG: IHDR is the first chunk
+  if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(1, 4) === 'PNG') {
+    return { width: view.getUint32(16), height: view.getUint32(20) }
+  }
+
+  // GIF: logical screen size
+  if (bytes.length >= 10 && ascii(0, 3) === 'GIF') {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) }
+  }
+
+  // WebP: lossy (VP8), lossless (VP8L) or extended (VP8X)
+  if (bytes.length >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    const chunk = ascii(12, 16)
+    if (chunk === 'VP8 ') return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+    if (chunk === 'VP8L') {
+      const bits = view.getUint32(21, true)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    if (chunk === 'VP8X') {
+      const w = bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)
+      const h = bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)
+      return { width: w + 1, height: h + 1 }
+    }
+  }
+
+  // JPEG: walk the segments up to a SOFn marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) { offset++; continue }
+      const marker = bytes[offset + 1]
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+      }
+      offset += 2 + view.getUint16(offset + 2)
+    }
+  }
+
+  return null
+}
+
+// One worker per instance, reused across requests (loading the language data is the slow part)
+let workerPromise: Promise<Worker> | null = null
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker(OCR_LANGS, OEM.LSTM_ONLY, {
+      // Traineddata is downloaded once per instance; the bundle dir is read-only on Vercel
+      cachePath: os.tmpdir(),
+      ...(process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {}),
+    }).catch(err => {
+      workerPromise = null
+      throw err
+    })
+  }
+  return workerPromise
+}
+
+async function resetWorker() {
+  const pending = workerPromise
+  workerPromise = null
+  if (pending) await pending.then(w => w.terminate()).catch(() => {})
+}
+
+const round = (n: number) => Math.round(n * 10_000) / 10_000
+
+/**
+ * OCR an uploaded image (`data:image/…;base64,…`). `ocr` is unset when the
+ * image has no legible text. Failures are returned, not thrown: the image is
+ * still analyzed without OCR.
+ */
+export async function extractImageText(dataUrl: string): Promise<OcrResult> {
+  const warnings: string[] = []
+
+  const match = dataUrl.match(/^data:image\/[\w.+-]+;base64,(.+)$/is)
+  if (!match) return { ok: false, error: 'Imagem inválida para OCR.', warnings }
+
+  const bytes = Buffer.from(match[1], 'base64')
+  const size = readImageSize(bytes)
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  try {
+    const worker = await getWorker()
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`OCR timed out after ${OCR_TIMEOUT_MS / 1000}s`)), OCR_TIMEOUT_MS)
+    })
+    const { data } = await Promise.race([worker.recognize(bytes, {}, { blocks: true }), timeout])
+
+    const raw = (data.blocks || []).flatMap(b => b.paragraphs.flatMap(p => p.lines))
+    // Without a readable header, fall back to the extent of the recognized text
+    const width = size?.width || Math.max(1, ...raw.map(l => l.bbox.x1))
+    const height = size?.height || Math.max(1, ...raw.map(l => l.bbox.y1))
+
+    const lines: OcrLine[] = []
+    let text = ''
+    for (const line of raw) {
+      const lineText = line.text.replace(/\s+/g, ' ').trim()
+      if (!lineText || line.confidence < MIN_LINE_CONFIDENCE) continue
+      if (text) text += '\n'
+      lines.push({
+        text: lineText,
+        confidence: Math.round(line.confidence),
+        start: text.length,
+        box: {
+          x: round(line.bbox.x0 / width),
+          y: round(line.bbox.y0 / height),
+          width: round((line.bbox.x1 - line.bbox.x0) / width),
+          height: round((line.bbox.y1 - line.bbox.y0) / height),
+        },
+      })
+      text += lineText
+    }
+
+    // Photos without text are fine — just nothing to add to the prompt
+    if (text.length < MIN_TEXT_LENGTH) return { ok: true, warnings }
+
+    const confidence = Math.round(lines.reduce((sum, l) => sum + l.confidence, 0) / lines.length)
+    if (confidence < LOW_CONFIDENCE) {
+      warnings.push('O texto da imagem foi reconhecido com baixa confiança (OCR); trechos citados podem conter erros de leitura.')
+    }
+
+    return { ok: true, ocr: { text, width, height, confidence, lines }, warnings }
+  } catch (err: any) {
+    console.warn(`[extractor.ocr] OCR failed: ${err?.message || err}`)
+    // A timed-out worker may still be busy — start fresh next time
+    await resetWorker()
+    return { ok: false, error: 'Não foi possível ler o texto da imagem (OCR).', warnings }
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,251 @@
+import 'server-only'
+import { getDocumentProxy } from 'unpdf'
+import type { ExtractionResult } from './extractor.web'
+import { MAX_ANALYZED_CHARS } from '../chunking'
+
+/**
+ * PDF extractor (uploaded data-URLs and links served as application/pdf).
+ *
+ * Text is read page by page with unpdf (serverless PDF.js build) and joined
+ * with `[Página N]` markers. Document metadata (producer, creator, creation /
+ * modification dates, incremental saves) is returned as forensic signals:
+ * fake "official" documents are often edited in Word or online PDF editors
+ * after the fact.
+ */
+
+const MAX_PAGES = 50
+const MAX_TEXT_CHARS = MAX_ANALYZED_CHARS
+const MIN_CONTENT_LENGTH = 50
+
+/** Producers/creators that indicate conversion or editing outside the issuing system */
+const EDITING_TOOLS = [
+  'ilovepdf', 'smallpdf', 'sejda', 'pdfescape', 'pdf24', 'pdfcandy', 'pdffiller', 'dochub',
+  'canva', 'microsoft: print to pdf', 'microsoft® word', 'microsoft word', 'libreoffice', 'openoffice',
+  'wps', 'google docs', 'foxit phantompdf', 'foxit pdf editor', 'nitro', 'pdfelement', 'camscanner',
+]
+
+export interface PdfPage {
+  page: number
+  text: string
+}
+
+export interface PdfDocumentInfo {
+  pageCount: number
+  /** Pages whose text made it into the analysis (after truncation) */
+  pagesAnalyzed: number
+  title?: string
+  author?: string
+  creator?: string
+  producer?: string
+  createdAt?: string
+  modifiedAt?: string
+  /** Saves appended after the original file (extra %%EOF markers) */
+  incrementalUpdates: number
+  /** Human-readable forensic observations (pt-BR) */
+  signals: string[]
+}
+
+export interface PdfExtractionResult extends ExtractionResult {
+  pages?: PdfPage[]
+}
+
+/** True for `data:application/pdf;base64,…` uploads */
+export function isPdfDataUrl(content: string): boolean {
+  return /^data:application\/(?:x-)?pdf;base64,/i.test(content)
+}
+
+/** `%PDF-` magic number */
+export function isPdfBytes(bytes: Uint8Array): boolean {
+  return bytes.length > 4 && bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46 && bytes[4] === 0x2d
+}
+
+/**
+ * PDF date string (`D:YYYYMMDDHHmmSSOHH'mm'`) → ISO string, or undefined.
+ */
+function parsePdfDate(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const m = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/)
+  if (!m) return undefined
+  const [, y, mo = '01', d = '01', h = '00', mi = '00', s = '00', tz, tzh = '00', tzm = '00'] = m
+  const offset = !tz || tz.toUpperCase() === 'Z' ? 'Z' : `${tz}${tzh}:${tzm}`
+  const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short', timeZone: 'America/Sao_Paulo' })
+}
+
+function cleanString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, 200) : undefined
+}
+
+/** Number of `%%EOF` markers minus the original one */
+function countIncrementalUpdates(bytes: Uint8Array): number {
+  const raw = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('latin1')
+  return Math.max(0, (raw.match(/%%EOF/g) || []).length - 1)
+}
+
+function buildSignals(info: Omit<PdfDocumentInfo, 'signals'>, xmpProducer: string | undefined, blankPages: number): string[] {
+  const signals: string[] = []
+
+  if (!info.producer && !info.creator && !info.createdAt && !info.modifiedAt) {
+    signals.push('PDF sem metadados de autoria ou datas (podem ter sido removidos).')
+  }
+
+  const tool = [info.producer, info.creator]
+    .filter(Boolean)
+    .find(v => EDITING_TOOLS.some(t => v!.toLowerCase().includes(t)))
+  if (tool) {
+    signals.push(`PDF gerado ou editado com "${tool}" (editor de texto/conversor), não com um sistema de emissão de documentos.`)
+  }
+
+  if (info.createdAt && info.modifiedAt) {
+    const created = new Date(info.createdAt).getTime()
+    const modified = new Date(info.modifiedAt).getTime()
+    if (modified < created - 60_000) {
+      signals.push(`Datas inconsistentes: modificação (${formatDate(info.modifiedAt)}) anterior à criação (${formatDate(info.createdAt)}).`)
+    } else if (modified - created > 60_000) {
+      signals.push(`PDF modificado após a criação (criado em ${formatDate(info.createdAt)}, modificado em ${formatDate(info.modifiedAt)}).`)
+    }
+  }
+
+  if (info.createdAt && new Date(info.createdAt).getTime() > Date.now() + 86_400_000) {
+    signals.push(`Data de criação no futuro (${formatDate(info.createdAt)}).`)
+  }
+
+  if (info.incrementalUpdates > 0) {
+    signals.push(`O arquivo recebeu ${info.incrementalUpdates} atualização(ões) incremental(is) após a versão original (comum em PDFs editados ou assinados).`)
+  }
+
+  if (xmpProducer && info.producer && xmpProducer.toLowerCase() !== info.producer.toLowerCase()) {
+    signals.push(`Metadados divergentes: produtor "${info.producer}" no dicionário Info e "${xmpProducer}" no XMP.`)
+  }
+
+  if (blankPages > 0) {
+    signals.push(`${blankPages} página(s) sem texto selecionável (provavelmente imagem digitalizada) — o conteúdo dessas páginas não foi analisado.`)
+  }
+
+  return signals
+}
+
+/**
+ * Extract per-page text and metadata from PDF bytes.
+ */
+export async function extractPdfText(bytes: Uint8Array, sourceUrl?: string): Promise<PdfExtractionResult> {
+  const warnings: string[] = []
+
+  if (!isPdfBytes(bytes)) {
+    return { ok: false, error: 'O arquivo não é um PDF válido.', warnings }
+  }
+
+  let pdf: Awaited<ReturnType<typeof getDocumentProxy>>
+  try {
+    // unpdf/PDF.js may detach the buffer it receives — hand it a copy
+    pdf = await getDocumentProxy(new Uint8Array(bytes))
+  } catch (err: any) {
+    const encrypted = err?.name === 'PasswordException'
+    console.warn(`[extractor.pdf] Failed to open PDF: ${err?.message || err}`)
+    return {
+      ok: false,
+      error: encrypted
+        ? 'O PDF está protegido por senha. Remova a proteção ou cole o texto diretamente.'
+        : 'Não foi possível ler o PDF (arquivo corrompido ou formato não suportado).',
+      warnings,
+    }
+  }
+
+  try {
+    const pageCount = pdf.numPages
+    const pages: PdfPage[] = []
+    let blankPages = 0
+    let total = 0
+    let truncated = false
+
+    for (let n = 1; n <= Math.min(pageCount, MAX_PAGES); n++) {
+      const page = await pdf.getPage(n)
+      const content = await page.getTextContent()
+      const text = content.items
+        .map((item: any) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+
+      if (!text) { blankPages++; continue }
+
+      // Budget includes the `[Página N]` marker and separator
+      const remaining = MAX_TEXT_CHARS - total - `[Página ${n}]\n\n\n`.length
+      if (text.length > remaining) {
+        if (remaining > 200) pages.push({ page: n, text: text.slice(0, remaining) })
+        truncated = true
+        break
+      }
+      pages.push({ page: n, text })
+      total += text.length + `[Página ${n}]\n\n\n`.length
+    }
+
+    const lastPage = pages[pages.length - 1]?.page || 0
+    if (truncated) {
+      warnings.push(`Conteúdo truncado em ${MAX_TEXT_CHARS.toLocaleString('pt-BR')} caracteres (analisadas as páginas 1–${lastPage} de ${pageCount}).`)
+    } else if (pageCount > MAX_PAGES) {
+      warnings.push(`PDF com ${pageCount} páginas: apenas as primeiras ${MAX_PAGES} foram lidas.`)
+    }
+
+    // ── Metadata (Info dictionary + XMP) ──
+    let meta: { info?: any; metadata?: any } = {}
+    try {
+      meta = await pdf.getMetadata() as any
+    } catch {
+      warnings.push('Não foi possível ler os metadados do PDF.')
+    }
+    const info = meta.info || {}
+    const xmpProducer = cleanString(meta.metadata?.get?.('pdf:producer'))
+
+    const base = {
+      pageCount,
+      pagesAnalyzed: pages.length,
+      title: cleanString(info.Title),
+      author: cleanString(info.Author),
+      creator: cleanString(info.Creator) || cleanString(meta.metadata?.get?.('xmp:creatortool')),
+      producer: cleanString(info.Producer) || xmpProducer,
+      createdAt: parsePdfDate(info.CreationDate),
+      modifiedAt: parsePdfDate(info.ModDate),
+      incrementalUpdates: countIncrementalUpdates(bytes),
+    }
+    const document: PdfDocumentInfo = { ...base, signals: buildSignals(base, xmpProducer, blankPages) }
+
+    const text = pages.map(p => `[Página ${p.page}]\n${p.text}`).join('\n\n')
+    if (text.length < MIN_CONTENT_LENGTH) {
+      return {
+        ok: false,
+        error: 'O PDF não tem texto selecionável (provavelmente é digitalizado). Envie as páginas como imagem.',
+        warnings,
+        pdf: document,
+      }
+    }
+
+    return {
+      ok: true,
+      text,
+      title: document.title,
+      sourceUrl,
+      warnings: [...warnings, ...document.signals],
+      pages,
+      pdf: document,
+    }
+  } finally {
+    await pdf.destroy().catch(() => {})
+  }
+}
+
+/**
+ * Extract an uploaded PDF (`data:application/pdf;base64,…`).
+ */
+export async function extractPdfFromDataUrl(dataUrl: string): Promise<PdfExtractionResult> {
+  const match = dataUrl.match(/^data:application\/(?:x-)?pdf;base64,(.+)$/is)
+  if (!match) {
+    return { ok: false, error: 'Envie um arquivo PDF.', warnings: [] }
+  }
+  return extractPdfText(new Uint8Array(Buffer.from(match[1], 'base64')))
+}
@@ -0,0 +1,353 @@
+import 'server-only'
+import { parseHTML } from 'linkedom'
+import { safeFetch, decodeBody, UnsafeUrlError } from './safeFetch'
+import { randomUserAgent, type ExtractionResult } from './extractor.web'
+import { MAX_ANALYZED_CHARS } from '../chunking'
+
+/**
+ * Public posts on social networks. Their pages are login walls or JS shells
+ * for Readability, so each network is read from what it serves to embeds:
+ *
+ *   - X/Twitter: the embed iframe (platform.twitter.com/embed/Tweet.html),
+ *     whose __NEXT_DATA__ carries the tweet JSON
+ *   - Instagram: the captioned embed page (/p/<code>/embed/captioned/)
+ *   - TikTok: the oEmbed endpoint (the post date comes from the video ID)
+ *   - Telegram: the public channel widget (t.me/<channel>/<id>?embed=1)
+ *
+ * The parsers are pure (HTML/JSON in, post out) so they can be checked
+ * offline against the sample responses in __fixtures__/social/.
+ */
+
+export type SocialPlatform = 'x' | 'instagram' | 'tiktok' | 'telegram'
+
+export const SOCIAL_PLATFORM_LABELS: Record<SocialPlatform, string> = {
+  x: 'X (Twitter)',
+  instagram: 'Instagram',
+  tiktok: 'TikTok',
+  telegram: 'Telegram',
+}
+
+export interface SocialPost {
+  platform: SocialPlatform
+  /** Canonical URL of the post */
+  url: string
+  /** Handle without "@" (channel username on Telegram) */
+  author: string
+  /** Display name, when the embed shows it */
+  authorName?: string
+  publishedAt?: string
+  /** Photos, videos or thumbnails attached to the post (CDN links may expire) */
+  mediaUrls: string[]
+  /** Telegram: channel or user a forwarded message came from */
+  forwardedFrom?: string
+}
+
+export interface ParsedPost {
+  text: string
+  post: SocialPost
+}
+
+const X_REGEX = /^https?:\/\/(?:www\.|mobile\.)?(?:x|twitter)\.com\/(?:\w{1,15}|i\/web)\/status(?:es)?\/(\d{5,25})/i
+const INSTAGRAM_REGEX = /^https?:\/\/(?:www\.)?instagram\.com\/(?:[\w.]+\/)?(?:p|reels?|tv)\/([\w-]{5,})/i
+const TIKTOK_REGEX = /^https?:\/\/(?:www\.|m\.)?tiktok\.com\/@([\w.-]+)\/(?:video|photo)\/(\d{10,25})/i
+const TIKTOK_SHORT_REGEX = /^https?:\/\/(?:vm\.tiktok\.com|vt\.tiktok\.com|(?:www\.)?tiktok\.com\/t)\/[\w-]+/i
+const TELEGRAM_REGEX = /^https?:\/\/(?:t|telegram)\.me\/(?:s\/)?([a-z]\w{3,31})\/(\d+)/i
+const TELEGRAM_PRIVATE_REGEX = /^https?:\/\/(?:t|telegram)\.me\/c\//i
+
+const FETCH_TIMEOUT_MS = 8_000
+const MAX_RESPONSE_BYTES = 3 * 1024 * 1024
+const MAX_TEXT_CHARS = MAX_ANALYZED_CHARS
+
+/**
+ * Which social network a post URL belongs to (null: not a post link we read).
+ */
+export function detectSocialPlatform(url: string): SocialPlatform | null {
+  const trimmed = url.trim()
+  if (X_REGEX.test(trimmed)) return 'x'
+  if (INSTAGRAM_REGEX.test(trimmed)) return 'instagram'
+  if (TIKTOK_REGEX.test(trimmed) || TIKTOK_SHORT_REGEX.test(trimmed)) return 'tiktok'
+  if (TELEGRAM_REGEX.test(trimmed) || TELEGRAM_PRIVATE_REGEX.test(trimmed)) return 'telegram'
+  return null
+}
+
+function cleanText(value: string | null | undefined): string {
+  return (value || '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function toIso(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/** Twitter escapes &, < and > in tweet text */
+function decodeTweetEntities(text: string): string {
+  return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&')
+}
+
+/**
+ * X/Twitter embed page (platform.twitter.com/embed/Tweet.html?id=…).
+ */
+export function parseXEmbed(html: string): ParsedPost | null {
+  const { document } = parseHTML(html)
+  const data = document.querySelector('script#__NEXT_DATA__')?.textContent
+  if (!data) return null
+
+  let tweet: any
+  try {
+    tweet = JSON.parse(data)?.props?.pageProps?.tweet
+  } catch {
+    return null
+  }
+  if (typeof tweet?.text !== 'string' || !tweet.user?.screen_name) return null
+
+  // display_text_range drops leading reply mentions and the trailing media link
+  // (offsets in code points of the unescaped text)
+  const chars = Array.from(decodeTweetEntities(tweet.text))
+  const [start, end] = Array.isArray(tweet.display_text_range) ? tweet.display_text_range : [0, chars.length]
+  let text = chars.slice(start, end).join('')
+  for (const u of tweet.entities?.urls || []) {
+    if (u?.url && u?.expanded_url) text = text.split(u.url).join(u.expanded_url)
+  }
+
+  const mediaUrls: string[] = (tweet.mediaDetails || []).map((m: any) => {
+    const videos = (m?.video_info?.variants || []).filter((v: any) => v?.content_type === 'video/mp4')
+    const best = videos.sort((a: any, b: any) => (b.bitrate || 0) - (a.bitrate || 0))[0]
+    return best?.url || m?.media_url_https
+  }).filter(Boolean)
+
+  const author = String(tweet.user.screen_name)
+  return {
+    text,
+    post: {
+      platform: 'x',
+      url: `https://x.com/${author}/status/${tweet.id_str}`,
+      author,
+      authorName: tweet.user.name || undefined,
+      publishedAt: toIso(tweet.created_at),
+      mediaUrls,
+    },
+  }
+}
+
+/**
+ * Instagram captioned embed page (/p/<code>/embed/captioned/).
+ */
+export function parseInstagramEmbed(html: string, url: string): ParsedPost | null {
+  const { document } = parseHTML(html.replace(/<br\s*\/?>/gi, '\n'))
+
+  const author = cleanText(document.querySelector('.UsernameText')?.textContent || document.querySelector('.CaptionUsername')?.textContent)
+  if (!author) return null
+
+  const caption = document.querySelector('.Caption')
+  caption?.querySelectorAll('.CaptionUsername, .CaptionComments').forEach((el: any) => el.remove())
+
+  const mediaUrls = Array.from(document.querySelectorAll('img.EmbeddedMediaImage, video.EmbeddedMediaVideo'))
+    .map((el: any) => el.getAttribute('src') as string | null)
+    .filter((src): src is string => !!src)
+
+  // The embed's inline JSON (escaped inside a script) carries the post timestamp
+  const takenAt = html.match(/taken_at_timestamp\\*"\s*:\s*(\d{9,11})/)?.[1]
+
+  return {
+    text: cleanText(caption?.textContent),
+    post: {
+      platform: 'instagram',
+      url,
+      author,
+      publishedAt: takenAt ? toIso(Number(takenAt) * 1000) : undefined,
+      mediaUrls,
+    },
+  }
+}
+
+/**
+ * TikTok oEmbed response (www.tiktok.com/oembed?url=…). The first 32 bits of
+ * a TikTok video ID are its creation time in Unix seconds.
+ */
+export function parseTikTokOEmbed(json: string, url: string): ParsedPost | null {
+  let data: any
+  try {
+    data = JSON.parse(json)
+  } catch {
+    return null
+  }
+  const author = data?.author_unique_id || String(data?.author_url || '').match(/@([\w.-]+)/)?.[1]
+  if (!author) return null
+
+  const videoId = url.match(TIKTOK_REGEX)?.[2]
+  return {
+    text: cleanText(data.title),
+    post: {
+      platform: 'tiktok',
+      url,
+      author,
+      authorName: data.author_name || undefined,
+      publishedAt: videoId ? toIso(Number(BigInt(videoId) >> 32n) * 1000) : undefined,
+      mediaUrls: data.thumbnail_url ? [data.thumbnail_url] : [],
+    },
+  }
+}
+
+/**
+ * Telegram public channel widget (t.me/<channel>/<id>?embed=1).
+ */
+export function parseTelegramEmbed(html: string): ParsedPost | null {
+  const { document } = parseHTML(html.replace(/<br\s*\/?>/gi, '\n'))
+  const message = document.querySelector('.tgme_widget_message[data-post]')
+  if (!message) return null
+
+  const [channel, id] = String(message.getAttribute('data-post')).split('/')
+  if (!channel || !id) return null
+
+  // Replies quote the original message with the same class
+  const textEl = Array.from(message.querySelectorAll('.tgme_widget_message_text'))
+    .find((el: any) => !el.closest('.tgme_widget_message_reply')) as any
+
+  const mediaUrls: string[] = []
+  message.querySelectorAll('.tgme_widget_message_photo_wrap, .tgme_widget_message_video_thumb').forEach((el: any) => {
+    const src = String(el.getAttribute('style') || '').match(/background-image:\s*url\(['"]?([^'")]+)/)?.[1]
+    if (src) mediaUrls.push(src)
+  })
+  message.querySelectorAll('video[src]').forEach((el: any) => mediaUrls.push(el.getAttribute('src')))
+
+  return {
+    text: cleanText(textEl?.textContent),
+    post: {
+      platform: 'telegram',
+      url: `https://t.me/${channel}/${id}`,
+      author: channel,
+      authorName: cleanText(message.querySelector('.tgme_widget_message_owner_name')?.textContent) || undefined,
+      publishedAt: toIso(message.querySelector('.tgme_widget_message_date time')?.getAttribute('datetime')),
+      mediaUrls,
+      forwardedFrom: cleanText(message.querySelector('.tgme_widget_message_forwarded_from_name')?.textContent) || undefined,
+    },
+  }
+}
+
+async function fetchText(url: string, accept: string): Promise<{ ok: boolean; status: number; url: string; text: string }> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+  try {
+    const res = await safeFetch(url, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent': randomUserAgent(),
+        'Accept': accept,
+        'Accept-Language': 'pt-BR,pt;q=0.9,en;q=0.5',
+      },
+      maxBytes: MAX_RESPONSE_BYTES,
+    })
+    return { ok: res.ok, status: res.status, url: res.url, text: decodeBody(res.body, res.headers.get('content-type')) }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+const HTML_ACCEPT = 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+
+async function fetchPost(platform: SocialPlatform, url: string): Promise<ParsedPost | null> {
+  switch (platform) {
+    case 'x': {
+      const id = url.match(X_REGEX)![1]
+      const res = await fetchText(`https://platform.twitter.com/embed/Tweet.html?id=${id}&lang=pt&dnt=true`, HTML_ACCEPT)
+      return res.ok ? parseXEmbed(res.text) : null
+    }
+    case 'instagram': {
+      const code = url.match(INSTAGRAM_REGEX)![1]
+      const res = await fetchText(`https://www.instagram.com/p/${code}/embed/captioned/`, HTML_ACCEPT)
+      return res.ok ? parseInstagramEmbed(res.text, `https://www.instagram.com/p/${code}/`) : null
+    }
+    case 'tiktok': {
+      // Short links (vm.tiktok.com/…) redirect to the canonical video URL
+      let canonical = url.match(TIKTOK_REGEX)?.[0]
+      if (!canonical) canonical = (await fetchText(url, HTML_ACCEPT)).url.match(TIKTOK_REGEX)?.[0]
+      if (!canonical) return null
+      const res = await fetchText(`https://www.tiktok.com/oembed?url=${encodeURIComponent(canonical)}`, 'application/json')
+      return res.ok ? parseTikTokOEmbed(res.text, canonical) : null
+    }
+    case 'telegram': {
+      const [, channel, id] = url.match(TELEGRAM_REGEX)!
+      const res = await fetchText(`https://t.me/${channel}/${id}?embed=1&mode=tme`, HTML_ACCEPT)
+      return res.ok ? parseTelegramEmbed(res.text) : null
+    }
+  }
+}
+
+/**
+ * Extract the text of a public post on X, Instagram, TikTok or Telegram,
+ * with its author, date and media in `post`.
+ */
+export async function extractSocialPost(url: string): Promise<ExtractionResult> {
+  const warnings: string[] = []
+  const trimmed = url.trim()
+  const platform = detectSocialPlatform(trimmed)
+  if (!platform) {
+    return { ok: false, error: 'Link de publicação não reconhecido.', warnings }
+  }
+  const label = SOCIAL_PLATFORM_LABELS[platform]
+
+  if (TELEGRAM_PRIVATE_REGEX.test(trimmed)) {
+    return {
+      ok: false,
+      error: 'Mensagens de grupos e canais privados do Telegram não podem ser lidas pelo link. Cole o texto ou envie uma captura de tela.',
+      warnings,
+    }
+  }
+
+  let parsed: ParsedPost | null
+  try {
+    parsed = await fetchPost(platform, trimmed)
+  } catch (err: any) {
+    if (err instanceof UnsafeUrlError) {
+      console.warn(`[extractor.social] Blocked ${err.code}: ${trimmed.slice(0, 80)}`)
+      return { ok: false, error: err.message, warnings }
+    }
+    if (err?.name === 'AbortError') {
+      return { ok: false, error: `Tempo esgotado ao acessar a publicação no ${label} (8s). Cole o texto diretamente.`, warnings }
+    }
+    console.warn(`[extractor.social] ${platform} fetch failed: ${err?.message || err}`)
+    return { ok: false, error: `Erro ao acessar a publicação no ${label}. Cole o texto diretamente.`, warnings }
+  }
+
+  if (!parsed) {
+    return {
+      ok: false,
+      error: `Não foi possível ler a publicação no ${label}: ela pode ter sido apagada, ser privada ou exigir login. Cole o texto ou envie uma captura de tela.`,
+      warnings,
+    }
+  }
+
+  const { post } = parsed
+  let text = parsed.text
+  if (!text) {
+    return {
+      ok: false,
+      error: `A publicação no ${label} não tem texto para analisar (apenas foto ou vídeo). Envie uma captura de tela ou o áudio.`,
+      warnings,
+    }
+  }
+
+  if (post.mediaUrls.length > 0) {
+    warnings.push(`A publicação tem ${post.mediaUrls.length === 1 ? '1 foto ou vídeo' : `${post.mediaUrls.length} fotos ou vídeos`}; apenas o texto foi analisado.`)
+  }
+  if (text.length > MAX_TEXT_CHARS) {
+    text = text.slice(0, MAX_TEXT_CHARS)
+    warnings.push(`Conteúdo truncado em ${MAX_TEXT_CHARS.toLocaleString('pt-BR')} caracteres.`)
+  }
+
+  console.log(`[extractor.social] ${platform} post by @${post.author}: ${text.length} chars, ${post.mediaUrls.length} media`)
+  return {
+    ok: true,
+    text,
+    title: `Publicação de @${post.author} no ${label}`,
+    sourceUrl: post.url,
+    warnings,
+    post,
+  }
+}
@@ -1,6 +1,7 @@
 import 'server-only'
 import { extractWebContent, type ExtractionResult } from './extractor.web'
 import { extractYouTubeTranscript } from './extractor.youtube'
+import { detectSocialPlatform, extractSocialPost } from './extractor.social'
 
 const YOUTUBE_REGEX = /^https?:\/\/(?:www\.)?(?:youtube\.com\/(?:watch\?v=|shorts\/|embed\/)|youtu\.be\/)([\w-]{11})/
 
@@ -13,7 +14,8 @@ export function isYouTubeUrl(url: string): boolean {
 
 /**
  * Extract readable content from a URL.
- * Routes to YouTube or generic web extractor automatically.
+ * Routes to YouTube, social post (X, Instagram, TikTok, Telegram) or generic
+ * web extractor automatically.
  */
 export async function extractFromUrl(url: string): Promise<ExtractionResult> {
   const trimmed = url.trim()
@@ -34,6 +36,12 @@ export async function extractFromUrl(url: string): Promise<ExtractionResult> {
     return extractYouTubeTranscript(trimmed)
   }
 
+  const platform = detectSocialPlatform(trimmed)
+  if (platform) {
+    console.log(`[extractor] Routing to social extractor (${platform}) for: ${trimmed.slice(0, 80)}`)
+    return extractSocialPost(trimmed)
+  }
+
   console.log(`[extractor] Routing to web extractor for: ${trimmed.slice(0, 80)}`)
   return extractWebContent(trimmed)
 }
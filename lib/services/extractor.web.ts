@@ -1,6 +1,12 @@
 import 'server-only'
 import { parseHTML } from 'linkedom'
 import { Readability } from '@mozilla/readability'
+import { safeFetch, decodeBody, UnsafeUrlError, type SafeFetchResult } from './safeFetch'
+import { extractPdfText, isPdfBytes, type PdfDocumentInfo } from './extractor.pdf'
+import type { SocialPost } from './extractor.social'
+import type { YouTubeVideoInfo } from './extractor.youtube'
+import type { TranscriptSegment } from '../claims'
+import { MAX_ANALYZED_CHARS } from '../chunking'
 
 export interface ExtractionResult {
   ok: boolean
@@ -9,6 +15,14 @@ export interface ExtractionResult {
   sourceUrl?: string
   error?: string
   warnings: string[]
+  /** Set when the link served a PDF (see extractor.pdf) */
+  pdf?: PdfDocumentInfo
+  /** Set for public posts on social networks (see extractor.social) */
+  post?: SocialPost
+  /** Set for YouTube videos (see extractor.youtube) */
+  youtube?: YouTubeVideoInfo
+  /** Caption segments with timings in seconds; `text` joins them with spaces */
+  transcript?: TranscriptSegment[]
 }
 
 const USER_AGENTS = [
@@ -17,11 +31,13 @@ const USER_AGENTS = [
   'Mozilla/5.0 (X11; Linux x86_64; rv:126.0) Gecko/20100101 Firefox/126.0',
 ]
 
-function randomUserAgent(): string {
+export function randomUserAgent(): string {
   return USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)]
 }
 
 const FETCH_TIMEOUT_MS = 8_000
+const MAX_REDIRECTS = 5
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024
 const MIN_CONTENT_LENGTH = 200
 
 /**
@@ -36,17 +52,21 @@ export async function extractWebContent(url: string): Promise<ExtractionResult>
     const controller = new AbortController()
     const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
 
-    const res = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': randomUserAgent(),
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'pt-BR,pt;q=0.9,en;q=0.5',
-      },
-      redirect: 'follow',
-    })
-
-    clearTimeout(timer)
+    let res: SafeFetchResult
+    try {
+      res = await safeFetch(url, {
+        signal: controller.signal,
+        headers: {
+          'User-Agent': randomUserAgent(),
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf;q=0.8,*/*;q=0.7',
+          'Accept-Language': 'pt-BR,pt;q=0.9,en;q=0.5',
+        },
+        maxRedirects: MAX_REDIRECTS,
+        maxBytes: MAX_RESPONSE_BYTES,
+      })
+    } finally {
+      clearTimeout(timer)
+    }
 
     if (!res.ok) {
       return {
@@ -57,16 +77,27 @@ export async function extractWebContent(url: string): Promise<ExtractionResult>
     }
 
     const contentType = res.headers.get('content-type') || ''
+
+    // "Official" documents linked directly (decrees, bulletins)
+    if (contentType.includes('application/pdf') || (contentType.includes('application/octet-stream') && isPdfBytes(res.body))) {
+      console.log(`[extractor.web] PDF link, routing to PDF extractor: ${url.slice(0, 80)}`)
+      return extractPdfText(res.body, url)
+    }
+
     if (!contentType.includes('text/html') && !contentType.includes('application/xhtml')) {
       return {
         ok: false,
-        error: 'O link não aponta para uma página HTML. Cole o texto da página diretamente.',
+        error: 'O link não aponta para uma página HTML ou PDF. Cole o texto da página diretamente.',
         warnings,
       }
     }
 
-    html = await res.text()
+    html = decodeBody(res.body, contentType)
   } catch (err: any) {
+    if (err instanceof UnsafeUrlError) {
+      console.warn(`[extractor.web] Blocked ${err.code}: ${url.slice(0, 80)}`)
+      return { ok: false, error: err.message, warnings }
+    }
     if (err?.name === 'AbortError') {
       return {
         ok: false,
@@ -101,7 +132,8 @@ export async function extractWebContent(url: string): Promise<ExtractionResult>
     const article = reader.parse()
 
     if (article && article.textContent) {
-      textContent = article.textContent.trim()
+      // Readability's HTML keeps the paragraphs that textContent runs together
+      textContent = (article.content && blockText(parseHTML(`<html><body>${article.content}</body></html>`).document.body)) || article.textContent
       title = article.title || ''
     }
   } catch {
@@ -121,7 +153,7 @@ export async function extractWebContent(url: string): Promise<ExtractionResult>
       const paragraphs = (mainEl || doc2.body)?.querySelectorAll('p') || []
       const texts: string[] = []
       paragraphs.forEach((p: any) => {
-        const t = p.textContent?.trim()
+        const t = p.textContent?.replace(/\s+/g, ' ').trim()
         if (t && t.length > 20) texts.push(t)
       })
 
@@ -137,9 +169,10 @@ export async function extractWebContent(url: string): Promise<ExtractionResult>
     }
   }
 
-  // Normalize whitespace
+  // Normalize whitespace inside each line, keeping paragraph breaks for the chunker
   textContent = textContent
-    .replace(/\s+/g, ' ')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
     .replace(/\n{3,}/g, '\n\n')
     .trim()
 
@@ -151,10 +184,10 @@ export async function extractWebContent(url: string): Promise<ExtractionResult>
     }
   }
 
-  // Cap at 10k chars
-  if (textContent.length > 10_000) {
-    textContent = textContent.slice(0, 10_000)
-    warnings.push('Conteúdo truncado em 10.000 caracteres.')
+  // Long articles are analyzed in chunks (see lib/chunking.ts) up to this cap
+  if (textContent.length > MAX_ANALYZED_CHARS) {
+    textContent = textContent.slice(0, MAX_ANALYZED_CHARS)
+    warnings.push(`Conteúdo truncado em ${MAX_ANALYZED_CHARS.toLocaleString('pt-BR')} caracteres.`)
   }
 
   return {
@@ -165,3 +198,25 @@ export async function extractWebContent(url: string): Promise<ExtractionResult>
     warnings,
   }
 }
+
+/** Elements rendered as their own block: their text is separated by a blank line */
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'FOOTER',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'TR', 'UL',
+])
+
+/**
+ * Text of an element with a blank line between block elements and a line
+ * break per <br>; whitespace inside text nodes collapses as in a browser.
+ */
+function blockText(node: any): string {
+  let text = ''
+  node.childNodes?.forEach((child: any) => {
+    if (child.nodeType === 3) text += String(child.textContent || '').replace(/\s+/g, ' ')
+    else if (child.nodeType !== 1) return
+    else if (child.tagName === 'BR') text += '\n'
+    else if (BLOCK_TAGS.has(child.tagName)) text += `\n\n${blockText(child)}\n\n`
+    else text += blockText(child)
+  })
+  return text
+}
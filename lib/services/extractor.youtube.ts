@@ -1,10 +1,40 @@
 import 'server-only'
-import type { ExtractionResult } from './extractor.web'
+import type { TranscriptSegment } from '../claims'
+import { safeFetch, decodeBody } from './safeFetch'
+import { randomUserAgent, type ExtractionResult } from './extractor.web'
+import { MAX_ANALYZED_CHARS } from '../chunking'
 
 const YOUTUBE_ID_REGEX = /(?:youtube\.com\/(?:watch\?v=|shorts\/|embed\/)|youtu\.be\/)([\w-]{11})/
 
+/** Caption items are merged into segments of up to this many seconds */
+const SEGMENT_SECONDS = 15
+const MAX_DESCRIPTION_CHARS = 2_000
+const WATCH_PAGE_TIMEOUT_MS = 8_000
+
+export interface YouTubeChapter {
+  /** Seconds from the start of the video */
+  start: number
+  title: string
+}
+
+export interface YouTubeVideoInfo {
+  videoId: string
+  /** Short link; `?t=<seconds>` points to a moment of the video */
+  url: string
+  title?: string
+  channel?: string
+  channelId?: string
+  publishedAt?: string
+  durationSeconds?: number
+  viewCount?: number
+  description?: string
+  /** Chapters listed in the description (empty when the video has none) */
+  chapters: YouTubeChapter[]
+}
+
 /**
- * Extract transcript/captions from a YouTube video.
+ * Extract transcript/captions from a YouTube video, keeping the caption
+ * timings (segments in seconds), plus public metadata from the watch page.
  * Uses the youtube-transcript package (no browser automation).
  */
 export async function extractYouTubeTranscript(url: string): Promise<ExtractionResult> {
@@ -23,6 +53,12 @@ export async function extractYouTubeTranscript(url: string): Promise<ExtractionR
   const videoId = match[1]
   console.log(`[yt-extractor] Detected YouTube video: ${videoId} from URL: ${url}`)
 
+  // Metadata is best-effort and fetched alongside the captions
+  const infoPromise = fetchYouTubeVideoInfo(videoId).catch((err: any) => {
+    console.warn(`[yt-extractor] Watch page metadata failed for ${videoId}: ${err?.message || err}`)
+    return null
+  })
+
   try {
     // Dynamic import to avoid bundling issues
     const { YoutubeTranscript } = await import('youtube-transcript')
@@ -61,10 +97,11 @@ export async function extractYouTubeTranscript(url: string): Promise<ExtractionR
       warnings.push('Transcrição obtida em idioma alternativo (não pt-BR).')
     }
 
-    const text = transcriptItems.map((item: any) => item.text).join(' ').trim()
-    console.log(`[yt-extractor] Transcript obtained: ${text.length} chars, ${transcriptItems.length} segments`)
+    const info = await infoPromise
+    if (!info) warnings.push('Não foi possível obter título, canal e data do vídeo; apenas a transcrição foi analisada.')
+    console.log(`[yt-extractor] Transcript obtained: ${transcriptItems.length} caption items${info?.chapters.length ? `, ${info.chapters.length} chapters` : ''}`)
 
-    return buildTranscriptResult(text, videoId, url, warnings)
+    return buildTranscriptResult(transcriptItems, info || { videoId, url: `https://youtu.be/${videoId}`, chapters: [] }, url, warnings)
   } catch (err: any) {
     const msg = err?.message || String(err)
     console.error(`[yt-extractor] Fatal error for ${videoId}:`, msg)
@@ -89,24 +126,64 @@ export async function extractYouTubeTranscript(url: string): Promise<ExtractionR
   }
 }
 
-function buildTranscriptResult(
-  text: string,
-  videoId: string,
-  url: string,
-  warnings: string[],
-): ExtractionResult {
-  // Normalize whitespace
-  let cleaned = text
-    .replace(/\s+/g, ' ')
+/** Caption text comes HTML-escaped, sometimes twice ("&amp;#39;") */
+function decodeCaption(text: string): string {
+  return text
     .replace(/&amp;/g, '&')
     .replace(/&lt;/g, '<')
     .replace(/&gt;/g, '>')
     .replace(/&#39;/g, "'")
     .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/<[^>]*>/g, '')
+    .replace(/\s+/g, ' ')
     .trim()
+}
+
+/**
+ * Merge caption items (a few seconds each) into segments that end at a
+ * sentence or after SEGMENT_SECONDS.
+ */
+export function captionsToSegments(items: { text: string; offset: number; duration: number }[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = []
+  let current: TranscriptSegment | null = null
+
+  for (const item of items) {
+    const text = decodeCaption(String(item.text || ''))
+    if (!text) continue
+    const start = Number(item.offset) || 0
+    const end = start + (Number(item.duration) || 0)
+
+    const span = current ? start - current.start : 0
+    if (!current || span >= SEGMENT_SECONDS || (/[.?!…]$/.test(current.text) && span >= 5)) {
+      current = { index: String(segments.length + 1), start, end, text, instrumental: false }
+      segments.push(current)
+    } else {
+      current.text += ` ${text}`
+      current.end = Math.max(current.end, end)
+    }
+  }
+
+  for (const seg of segments) {
+    seg.start = Math.round(seg.start * 100) / 100
+    seg.end = Math.round(seg.end * 100) / 100
+    seg.instrumental = /^\[(?:música|music|aplausos|applause)\]$/i.test(seg.text)
+  }
+  return segments
+}
+
+function buildTranscriptResult(
+  items: { text: string; offset: number; duration: number }[],
+  info: YouTubeVideoInfo,
+  url: string,
+  warnings: string[],
+): ExtractionResult {
+  const { videoId } = info
+  let segments = captionsToSegments(items)
+  let text = segments.map(s => s.text).join(' ')
 
-  if (cleaned.length < 200) {
-    console.warn(`[yt-extractor] Transcript too short: ${cleaned.length} chars for ${videoId}`)
+  if (text.length < 200) {
+    console.warn(`[yt-extractor] Transcript too short: ${text.length} chars for ${videoId}`)
     return {
       ok: false,
       error: 'Este vídeo possui legenda muito curta para uma análise confiável.',
@@ -114,17 +191,122 @@ function buildTranscriptResult(
     }
   }
 
-  // Cap at 10k chars
-  if (cleaned.length > 10_000) {
-    cleaned = cleaned.slice(0, 10_000)
-    warnings.push('Transcrição truncada em 10.000 caracteres.')
+  // Cap whole segments, so that the text and the segment timings stay aligned
+  if (text.length > MAX_ANALYZED_CHARS) {
+    let length = 0
+    segments = segments.filter(s => (length += s.text.length + 1) <= MAX_ANALYZED_CHARS + 1)
+    text = segments.map(s => s.text).join(' ')
+    const last = segments[segments.length - 1]
+    warnings.push(`Transcrição muito longa: apenas os primeiros ${Math.round(last.end / 60)} minutos do vídeo foram considerados.`)
   }
 
   return {
     ok: true,
-    text: `[Transcrição do vídeo YouTube: ${videoId}]\n\n${cleaned}`,
-    title: `Vídeo YouTube: ${videoId}`,
+    text,
+    title: info.title ? `${info.title}${info.channel ? ` — ${info.channel}` : ''}` : `Vídeo YouTube: ${videoId}`,
     sourceUrl: url,
     warnings,
+    youtube: info,
+    transcript: segments,
+  }
+}
+
+/**
+ * JSON object assigned to `marker` in a script of the page (`marker = {…};`),
+ * read by matching braces outside of strings.
+ */
+function extractAssignedJson(html: string, marker: string): any {
+  const at = html.indexOf(marker)
+  if (at < 0) return null
+  const start = html.indexOf('{', at + marker.length)
+  if (start < 0) return null
+
+  let depth = 0
+  let inString = false
+  for (let i = start; i < html.length; i++) {
+    const ch = html[i]
+    if (inString) {
+      if (ch === '\\') i++
+      else if (ch === '"') inString = false
+    } else if (ch === '"') {
+      inString = true
+    } else if (ch === '{') {
+      depth++
+    } else if (ch === '}' && --depth === 0) {
+      try {
+        return JSON.parse(html.slice(start, i + 1))
+      } catch {
+        return null
+      }
+    }
+  }
+  return null
+}
+
+/** "1:02:03" / "12:34" in seconds */
+function clockToSeconds(value: string): number {
+  return value.split(':').reduce((total, part) => total * 60 + Number(part), 0)
+}
+
+/**
+ * Chapters from the description ("0:00 Introdução" lines). As on YouTube,
+ * they only count when the list starts at 0:00 and has 3+ ascending entries.
+ */
+export function parseChapters(description: string): YouTubeChapter[] {
+  const chapters: YouTubeChapter[] = []
+  for (const line of description.split('\n')) {
+    const m = line.match(/^\s*[-•▶]?\s*\(?((?:\d{1,2}:)?\d{1,2}:\d{2})\)?\s*[-–—:|]?\s*(\S.*?)\s*$/)
+    if (m) chapters.push({ start: clockToSeconds(m[1]), title: m[2].slice(0, 100) })
+  }
+  if (chapters.length < 3 || chapters[0].start !== 0) return []
+  if (chapters.some((c, i) => i > 0 && c.start <= chapters[i - 1].start)) return []
+  return chapters
+}
+
+/**
+ * Public metadata from the watch page's ytInitialPlayerResponse.
+ */
+export function parseYouTubeWatchPage(html: string, videoId: string): YouTubeVideoInfo | null {
+  const player = extractAssignedJson(html, 'ytInitialPlayerResponse')
+  const details = player?.videoDetails
+  if (!details || details.videoId !== videoId) return null
+  const micro = player.microformat?.playerMicroformatRenderer || {}
+
+  const description = typeof details.shortDescription === 'string' ? details.shortDescription : ''
+  const published = micro.publishDate || micro.uploadDate
+  const publishedDate = published ? new Date(published) : null
+
+  return {
+    videoId,
+    url: `https://youtu.be/${videoId}`,
+    title: details.title || undefined,
+    channel: details.author || micro.ownerChannelName || undefined,
+    channelId: details.channelId || undefined,
+    publishedAt: publishedDate && !isNaN(publishedDate.getTime()) ? publishedDate.toISOString() : undefined,
+    durationSeconds: Number(details.lengthSeconds) || undefined,
+    viewCount: Number(details.viewCount) || undefined,
+    description: description.slice(0, MAX_DESCRIPTION_CHARS) || undefined,
+    chapters: parseChapters(description),
+  }
+}
+
+async function fetchYouTubeVideoInfo(videoId: string): Promise<YouTubeVideoInfo | null> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), WATCH_PAGE_TIMEOUT_MS)
+  try {
+    const res = await safeFetch(`https://www.youtube.com/watch?v=${videoId}&hl=pt-BR`, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent': randomUserAgent(),
+        'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'pt-BR,pt;q=0.9,en;q=0.5',
+        // Skips the EU consent interstitial
+        'Cookie': 'CONSENT=YES+1',
+      },
+    })
+    if (!res.ok) return null
+    return parseYouTubeWatchPage(decodeBody(res.body, res.headers.get('content-type')), videoId)
+  } finally {
+    clearTimeout(timer)
   }
 }
@@ -0,0 +1,38 @@
+import 'server-only'
+import crypto from 'crypto'
+import type { LLMProvider, LLMPart } from './llm'
+
+/**
+ * Deterministic offline provider for CI and local development.
+ * Never touches the network: the same prompt always yields the same answer.
+ *
+ * Env:
+ *   LLM_FAKE_RESPONSE — raw text to return verbatim (e.g. to exercise parse failures)
+ */
+export function createFakeProvider(): LLMProvider {
+  return {
+    name: 'fake',
+    model: 'fake-deterministic',
+    label: 'Fake LLM',
+    capabilities: { text: true, image: true, audio: true },
+    async generate(parts: LLMPart[]): Promise<string> {
+      if (process.env.LLM_FAKE_RESPONSE) return process.env.LLM_FAKE_RESPONSE
+
+      const hash = crypto.createHash('sha256')
+      for (const p of parts) hash.update('text' in p ? p.text : p.inlineData.data)
+      const digest = hash.digest()
+
+      // Scores in a stable 0-100 range derived from the prompt hash
+      const score = (i: number) => Math.round((digest[i] / 255) * 100)
+
+      return JSON.stringify({
+        meta: { id: crypto.randomUUID(), createdAt: new Date().toISOString(), inputType: 'text', language: 'pt-BR', mode: 'mvp_no_external_sources', warnings: ['Resposta gerada pelo provedor de testes (fake).'] },
+        scores: { fakeProbability: score(0), verifiableTruth: score(1), biasFraming: score(2), manipulationRisk: score(3) },
+        summary: { headline: 'Análise de teste', oneParagraph: 'Resultado determinístico gerado pelo provedor fake, sem chamada a modelo real.', verdict: 'Inconclusivo' },
+        claims: [],
+        similar: { searchQueries: [], externalChecks: [] },
+        recommendations: [],
+      })
+    },
+  }
+}
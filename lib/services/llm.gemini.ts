@@ -0,0 +1,28 @@
+import 'server-only'
+import { getGemini, isGeminiConfigured } from '../gemini'
+import type { LLMProvider, LLMPart } from './llm'
+
+/**
+ * Google Gemini provider. Natively multimodal (text, image and audio).
+ */
+export function createGeminiProvider(): LLMProvider {
+  const model = process.env.GEMINI_MODEL || 'gemini-2.5-flash'
+
+  return {
+    name: 'gemini',
+    model,
+    label: 'Gemini',
+    capabilities: { text: true, image: true, audio: true },
+    async generate(parts: LLMPart[]): Promise<string> {
+      const genai = getGemini()
+      const generative = genai.getGenerativeModel({ model })
+      const result = await generative.generateContent(parts)
+      const response = await result.response
+      return String(response.text())
+    },
+  }
+}
+
+export function isGeminiProviderConfigured(): boolean {
+  return isGeminiConfigured()
+}
@@ -0,0 +1,53 @@
+import 'server-only'
+import { envFlag, fetchWithTimeout, LLMServerError, type LLMProvider, type LLMPart } from './llm'
+
+/**
+ * Local Ollama provider (/api/chat, non-streaming).
+ * Keeps content on the machine — used for sensitive material and offline runs.
+ *
+ * Env:
+ *   OLLAMA_BASE_URL — e.g. http://127.0.0.1:11434
+ *   OLLAMA_MODEL    — default llama3.1
+ *   OLLAMA_VISION   — "true" for vision models such as llava (default false)
+ */
+export function createOllamaProvider(): LLMProvider {
+  const baseUrl = (process.env.OLLAMA_BASE_URL || 'http://127.0.0.1:11434').replace(/\/+$/, '')
+  const model = process.env.OLLAMA_MODEL || 'llama3.1'
+
+  return {
+    name: 'ollama',
+    model,
+    label: model,
+    capabilities: { text: true, image: envFlag(process.env.OLLAMA_VISION, false), audio: false },
+    async generate(parts: LLMPart[]): Promise<string> {
+      const text = parts.filter((p): p is { text: string } => 'text' in p).map((p) => p.text).join('\n\n')
+      const images = parts
+        .filter((p): p is { inlineData: { mimeType: string; data: string } } => 'inlineData' in p)
+        .map((p) => p.inlineData.data)
+
+      const res = await fetchWithTimeout(`${baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: text, ...(images.length > 0 ? { images } : {}) }],
+          format: 'json',
+          stream: false,
+          options: { temperature: 0.2 },
+        }),
+      })
+
+      if (!res.ok) {
+        const errText = await res.text().catch(() => '')
+        throw new LLMServerError(`OLLAMA_HTTP_${res.status}: ${errText.slice(0, 200)}`)
+      }
+
+      const data = await res.json() as { message?: { content?: string } }
+      return String(data.message?.content || '')
+    },
+  }
+}
+
+export function isOllamaProviderConfigured(): boolean {
+  return !!process.env.OLLAMA_BASE_URL
+}
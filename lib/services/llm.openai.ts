@@ -0,0 +1,59 @@
+import 'server-only'
+import { envFlag, fetchWithTimeout, LLMServerError, type LLMProvider, type LLMPart } from './llm'
+
+/**
+ * OpenAI-compatible provider (/v1/chat/completions).
+ * Works with OpenAI itself and self-hosted servers that expose the same API
+ * (vLLM, llama.cpp `server`, LM Studio, LocalAI…).
+ *
+ * Env:
+ *   OPENAI_BASE_URL      — default https://api.openai.com/v1
+ *   OPENAI_API_KEY       — optional for local servers
+ *   OPENAI_MODEL         — default gpt-4o-mini
+ *   OPENAI_VISION        — "false" when the model cannot read images (default true)
+ */
+export function createOpenAIProvider(): LLMProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '')
+  const apiKey = process.env.OPENAI_API_KEY || ''
+  const model = process.env.OPENAI_MODEL || 'gpt-4o-mini'
+
+  return {
+    name: 'openai',
+    model,
+    label: model,
+    capabilities: { text: true, image: envFlag(process.env.OPENAI_VISION, true), audio: false },
+    async generate(parts: LLMPart[]): Promise<string> {
+      const content = parts.map((p) =>
+        'text' in p
+          ? { type: 'text', text: p.text }
+          : { type: 'image_url', image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` } },
+      )
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`
+
+      const res = await fetchWithTimeout(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content }],
+          temperature: 0.2,
+        }),
+      })
+
+      if (!res.ok) {
+        const errText = await res.text().catch(() => '')
+        throw new LLMServerError(`OPENAI_HTTP_${res.status}: ${errText.slice(0, 200)}`)
+      }
+
+      const data = await res.json() as { choices?: { message?: { content?: string } }[] }
+      return String(data.choices?.[0]?.message?.content || '')
+    },
+  }
+}
+
+export function isOpenAIProviderConfigured(): boolean {
+  // Hosted OpenAI needs a key; a custom base URL (self-hosted) may not.
+  return !!process.env.OPENAI_API_KEY || !!process.env.OPENAI_BASE_URL
+}
@@ -0,0 +1,179 @@
+import 'server-only'
+import { createGeminiProvider, isGeminiProviderConfigured } from './llm.gemini'
+import { createOpenAIProvider, isOpenAIProviderConfigured } from './llm.openai'
+import { createOllamaProvider, isOllamaProviderConfigured } from './llm.ollama'
+import { createFakeProvider } from './llm.fake'
+
+/**
+ * Pluggable LLM provider layer.
+ *
+ * The analysis pipeline talks to an `LLMProvider` instead of a concrete SDK.
+ * The provider is chosen by LLM_PROVIDER:
+ *   - gemini  (default) — Google Gemini via @google/generative-ai
+ *   - openai  — any OpenAI-compatible /chat/completions endpoint (OpenAI, vLLM, llama.cpp server…)
+ *   - ollama  — local Ollama server (/api/chat)
+ *   - fake    — deterministic offline provider for CI/tests
+ */
+
+export type LLMProviderName = 'gemini' | 'openai' | 'ollama' | 'fake'
+
+export type LLMPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+
+export interface LLMCapabilities {
+  text: boolean
+  image: boolean
+  audio: boolean
+}
+
+export type LLMCapability = keyof LLMCapabilities
+
+export interface LLMProvider {
+  name: LLMProviderName
+  model: string
+  /** Human-readable label used in reports (e.g. "Gemini") */
+  label: string
+  capabilities: LLMCapabilities
+  /** Send the prompt parts and return the raw text answer */
+  generate(parts: LLMPart[]): Promise<string>
+}
+
+export class LLMServerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LLMServerError'
+  }
+}
+
+/**
+ * Raised when the input needs a capability (image/audio) that no configured
+ * provider offers.
+ */
+export class LLMCapabilityError extends LLMServerError {
+  constructor(public capability: LLMCapability) {
+    super(`LLM_CAPABILITY_UNSUPPORTED: ${capability}`)
+    this.name = 'LLMCapabilityError'
+  }
+}
+
+const PROVIDER_NAMES: LLMProviderName[] = ['gemini', 'openai', 'ollama', 'fake']
+
+/** Default request timeout for provider HTTP calls */
+export const LLM_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS) || 120_000
+
+function parseProviderName(value: string | undefined, fallback: LLMProviderName | null): LLMProviderName | null {
+  const name = (value || '').trim().toLowerCase()
+  if (!name) return fallback
+  if ((PROVIDER_NAMES as string[]).includes(name)) return name as LLMProviderName
+  throw new LLMServerError(`LLM_PROVIDER_UNKNOWN: ${name}`)
+}
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'gemini': return createGeminiProvider()
+    case 'openai': return createOpenAIProvider()
+    case 'ollama': return createOllamaProvider()
+    case 'fake': return createFakeProvider()
+  }
+}
+
+const _providers = new Map<LLMProviderName, LLMProvider>()
+
+function getProvider(name: LLMProviderName): LLMProvider {
+  let provider = _providers.get(name)
+  if (!provider) {
+    provider = createProvider(name)
+    _providers.set(name, provider)
+  }
+  return provider
+}
+
+/**
+ * Name of the configured primary provider.
+ */
+export function getLLMProviderName(): LLMProviderName {
+  return parseProviderName(process.env.LLM_PROVIDER, 'gemini') as LLMProviderName
+}
+
+/**
+ * Primary provider selected by LLM_PROVIDER.
+ */
+export function getLLMProvider(): LLMProvider {
+  return getProvider(getLLMProviderName())
+}
+
+/**
+ * Provider able to handle a given input capability.
+ *
+ * Returns the primary provider when it supports the capability. Otherwise,
+ * if LLM_MULTIMODAL_PROVIDER is set and supports it, that one is used.
+ * Returns null when no configured provider can handle the input — the
+ * content is never sent to a provider that was not explicitly configured.
+ */
+export function getLLMProviderFor(capability: LLMCapability): LLMProvider | null {
+  const primary = getLLMProvider()
+  if (primary.capabilities[capability]) return primary
+
+  const fallbackName = parseProviderName(process.env.LLM_MULTIMODAL_PROVIDER, null)
+  if (fallbackName && isProviderConfigured(fallbackName)) {
+    const fallback = getProvider(fallbackName)
+    if (fallback.capabilities[capability]) return fallback
+  }
+
+  return null
+}
+
+function isProviderConfigured(name: LLMProviderName): boolean {
+  switch (name) {
+    case 'gemini': return isGeminiProviderConfigured()
+    case 'openai': return isOpenAIProviderConfigured()
+    case 'ollama': return isOllamaProviderConfigured()
+    case 'fake': return true
+  }
+}
+
+/**
+ * Whether the primary provider has what it needs to run (API key, base URL…).
+ */
+export function isLLMConfigured(): boolean {
+  try {
+    return isProviderConfigured(getLLMProviderName())
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Name of the env var missing for the primary provider, for error messages.
+ */
+export function getLLMConfigHint(): string {
+  switch (process.env.LLM_PROVIDER?.trim().toLowerCase()) {
+    case 'openai': return 'OPENAI_BASE_URL/OPENAI_API_KEY'
+    case 'ollama': return 'OLLAMA_BASE_URL'
+    case 'fake': return 'LLM_PROVIDER'
+    default: return 'GEMINI_API_KEY'
+  }
+}
+
+/**
+ * fetch() with the shared LLM timeout. Used by the HTTP-based providers.
+ */
+export async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), LLM_TIMEOUT_MS)
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } catch (err: any) {
+    if (err?.name === 'AbortError') throw new LLMServerError(`LLM_TIMEOUT (${LLM_TIMEOUT_MS}ms)`)
+    throw err
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/** Parse an env flag ("true"/"1"/"false"/"0") with a default */
+export function envFlag(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value.trim() === '') return fallback
+  return ['1', 'true', 'yes', 'on'].includes(value.trim().toLowerCase())
+}
@@ -0,0 +1,212 @@
+import 'server-only'
+import dns from 'dns/promises'
+import net from 'net'
+
+/**
+ * SSRF-safe fetch for user-supplied URLs.
+ *
+ * - Only http/https, no credentials in the URL
+ * - Hostname resolved via DNS; every resolved address must be public
+ *   (loopback, RFC1918, link-local, CGNAT, multicast, reserved… are rejected)
+ * - Redirects followed manually, re-validating each hop, up to maxRedirects
+ * - Body streamed with a hard size cap
+ *
+ * Note: the address check and the connection use separate DNS lookups, so a
+ * rebinding attacker with a very low TTL could still race it. The check blocks
+ * direct and redirect-based access to internal addresses, which is the common case.
+ */
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'UnsafeUrlError'
+  }
+}
+
+export interface SafeFetchOptions {
+  /** Max redirect hops (default 5) */
+  maxRedirects?: number
+  /** Max response body size in bytes (default 5 MB) */
+  maxBytes?: number
+  signal?: AbortSignal
+  headers?: Record<string, string>
+  /** Default GET. Redirects are only followed for GET/HEAD. */
+  method?: string
+  body?: string
+}
+
+export interface SafeFetchResult {
+  status: number
+  ok: boolean
+  headers: Headers
+  /** Final URL after redirects */
+  url: string
+  body: Uint8Array
+}
+
+const DEFAULT_MAX_REDIRECTS = 5
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024
+
+const BLOCKED = new net.BlockList()
+// IPv4
+BLOCKED.addSubnet('0.0.0.0', 8, 'ipv4')          // "this" network
+BLOCKED.addSubnet('10.0.0.0', 8, 'ipv4')         // RFC1918
+BLOCKED.addSubnet('100.64.0.0', 10, 'ipv4')      // CGNAT
+BLOCKED.addSubnet('127.0.0.0', 8, 'ipv4')        // loopback
+BLOCKED.addSubnet('169.254.0.0', 16, 'ipv4')     // link-local (cloud metadata)
+BLOCKED.addSubnet('172.16.0.0', 12, 'ipv4')      // RFC1918
+BLOCKED.addSubnet('192.0.0.0', 24, 'ipv4')       // IETF protocol assignments
+BLOCKED.addSubnet('192.0.2.0', 24, 'ipv4')       // TEST-NET-1
+BLOCKED.addSubnet('192.168.0.0', 16, 'ipv4')     // RFC1918
+BLOCKED.addSubnet('198.18.0.0', 15, 'ipv4')      // benchmarking
+BLOCKED.addSubnet('198.51.100.0', 24, 'ipv4')    // TEST-NET-2
+BLOCKED.addSubnet('203.0.113.0', 24, 'ipv4')     // TEST-NET-3
+BLOCKED.addSubnet('224.0.0.0', 4, 'ipv4')        // multicast
+BLOCKED.addSubnet('240.0.0.0', 4, 'ipv4')        // reserved + broadcast
+// IPv6
+BLOCKED.addSubnet('::', 96, 'ipv6')              // unspecified, loopback and IPv4-compatible (::a.b.c.d)
+// IPv4-mapped IPv6 (::ffff:a.b.c.d) is matched against the IPv4 rules by BlockList itself
+BLOCKED.addSubnet('64:ff9b::', 96, 'ipv6')       // NAT64
+BLOCKED.addSubnet('100::', 64, 'ipv6')           // discard
+BLOCKED.addSubnet('2001:db8::', 32, 'ipv6')      // documentation
+BLOCKED.addSubnet('2002::', 16, 'ipv6')          // 6to4 (embeds an IPv4 address, e.g. 2002:7f00:1::)
+BLOCKED.addSubnet('fc00::', 7, 'ipv6')           // unique local
+BLOCKED.addSubnet('fe80::', 10, 'ipv6')          // link-local
+BLOCKED.addSubnet('ff00::', 8, 'ipv6')           // multicast
+
+/**
+ * Whether an IP literal is in a private, loopback, link-local or reserved range.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address)
+  if (family === 4) return BLOCKED.check(address, 'ipv4')
+  if (family === 6) return BLOCKED.check(address, 'ipv6')
+  return true
+}
+
+/**
+ * Validate a URL before fetching it. Throws UnsafeUrlError with a message
+ * suitable for the end user.
+ */
+export async function assertPublicUrl(rawUrl: string): Promise<URL> {
+  let url: URL
+  try {
+    url = new URL(rawUrl)
+  } catch {
+    throw new UnsafeUrlError('URL inválida. Verifique o formato e tente novamente.', 'INVALID_URL')
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeUrlError('Apenas links http:// ou https:// podem ser analisados.', 'BLOCKED_SCHEME')
+  }
+
+  if (url.username || url.password) {
+    throw new UnsafeUrlError('Links com usuário ou senha embutidos não são aceitos.', 'BLOCKED_CREDENTIALS')
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (!hostname || hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal') || hostname.endsWith('.local')) {
+    throw new UnsafeUrlError('O link aponta para um endereço de rede interna e não pode ser acessado.', 'BLOCKED_ADDRESS')
+  }
+
+  let addresses: string[]
+  if (net.isIP(hostname)) {
+    addresses = [hostname]
+  } else {
+    try {
+      const records = await dns.lookup(hostname, { all: true, verbatim: true })
+      addresses = records.map(r => r.address)
+    } catch {
+      throw new UnsafeUrlError('Não foi possível encontrar o endereço do site (falha de DNS). Verifique o link.', 'DNS_FAILED')
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new UnsafeUrlError('O link aponta para um endereço de rede interna ou reservado e não pode ser acessado.', 'BLOCKED_ADDRESS')
+  }
+
+  return url
+}
+
+async function readBodyCapped(res: Response, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(res.headers.get('content-length'))
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    await res.body?.cancel().catch(() => {})
+    throw new UnsafeUrlError(`A página é grande demais para ser analisada (máx. ${Math.round(maxBytes / 1024 / 1024)} MB).`, 'TOO_LARGE')
+  }
+
+  if (!res.body) return new Uint8Array(0)
+
+  const reader = res.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {})
+      throw new UnsafeUrlError(`A página é grande demais para ser analisada (máx. ${Math.round(maxBytes / 1024 / 1024)} MB).`, 'TOO_LARGE')
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+/**
+ * Fetch a user-supplied URL with SSRF protection (see module comment).
+ * Throws UnsafeUrlError for rejected URLs/responses; network errors propagate.
+ */
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions = {}): Promise<SafeFetchResult> {
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES
+
+  let current = rawUrl
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    const url = await assertPublicUrl(current)
+
+    const res = await fetch(url, {
+      method: options.method,
+      body: options.body,
+      signal: options.signal,
+      headers: options.headers,
+      redirect: 'manual',
+    })
+
+    const method = (options.method || 'GET').toUpperCase()
+    if (res.status >= 300 && res.status < 400 && (method === 'GET' || method === 'HEAD')) {
+      const location = res.headers.get('location')
+      await res.body?.cancel().catch(() => {})
+      if (!location) {
+        throw new UnsafeUrlError('O site respondeu com um redirecionamento inválido.', 'BAD_REDIRECT')
+      }
+      current = new URL(location, url).toString()
+      continue
+    }
+
+    const body = await readBodyCapped(res, maxBytes)
+    return { status: res.status, ok: res.ok, headers: res.headers, url: url.toString(), body }
+  }
+
+  throw new UnsafeUrlError(`O link redirecionou vezes demais (máx. ${maxRedirects}).`, 'TOO_MANY_REDIRECTS')
+}
+
+/**
+ * Decode a response body using the charset from Content-Type (default UTF-8).
+ */
+export function decodeBody(body: Uint8Array, contentType: string | null): string {
+  const charset = /charset=([^;]+)/i.exec(contentType || '')?.[1]?.trim().replace(/["']/g, '') || 'utf-8'
+  try {
+    return new TextDecoder(charset).decode(body)
+  } catch {
+    return new TextDecoder('utf-8').decode(body)
+  }
+}
@@ -0,0 +1,105 @@
+import 'server-only'
+import { execFile } from 'child_process'
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { TranscriptionError, type AudioInput, type Transcriber } from './transcription'
+
+/**
+ * Local Whisper transcriber: runs whisper.cpp or faster-whisper as a CPU-only
+ * child process. Audio never leaves the machine, and analysis keeps working
+ * without the portal (or without network at all).
+ *
+ * The upload is first converted by ffmpeg to 16 kHz mono WAV (the input
+ * whisper.cpp expects), then transcribed to SRT in a temporary directory.
+ *
+ * Env:
+ *   WHISPER_LOCAL_ENGINE     — whisper.cpp (default) | faster-whisper
+ *   WHISPER_LOCAL_MODEL      — whisper.cpp: path to a ggml model (e.g. ggml-small.bin);
+ *                              faster-whisper: model name or directory (e.g. small)
+ *   WHISPER_LOCAL_BIN        — default whisper-cli / whisper-ctranslate2
+ *   WHISPER_LOCAL_THREADS    — default: CPU count, up to 4
+ *   WHISPER_LOCAL_TIMEOUT_MS — default 170000 (under the 180 s function limit)
+ *   FFMPEG_PATH              — default ffmpeg
+ */
+
+type LocalEngine = 'whisper.cpp' | 'faster-whisper'
+
+const DEFAULT_BINS: Record<LocalEngine, string> = {
+  'whisper.cpp': 'whisper-cli',
+  'faster-whisper': 'whisper-ctranslate2',
+}
+
+const FFMPEG_TIMEOUT_MS = 30_000
+
+function getEngine(): LocalEngine {
+  const engine = (process.env.WHISPER_LOCAL_ENGINE || '').trim().toLowerCase()
+  if (!engine || engine === 'whisper.cpp' || engine === 'whispercpp') return 'whisper.cpp'
+  if (engine === 'faster-whisper' || engine === 'faster_whisper') return 'faster-whisper'
+  throw new TranscriptionError(`Motor de transcrição local desconhecido: ${engine} (use whisper.cpp ou faster-whisper).`)
+}
+
+/**
+ * execFile as a promise, with the process killed on timeout.
+ */
+function run(bin: string, args: string[], timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(bin, args, { timeout: timeoutMs, killSignal: 'SIGKILL', maxBuffer: 16 * 1024 * 1024 }, (err, _stdout, stderr) => {
+      if (!err) return resolve()
+      const code = (err as NodeJS.ErrnoException).code
+      if (code === 'ENOENT') {
+        reject(new TranscriptionError(`Transcrição local indisponível: o programa "${bin}" não foi encontrado no servidor.`))
+      } else if (err.killed) {
+        reject(new TranscriptionError(`Tempo esgotado na transcrição local (${Math.round(timeoutMs / 1000)}s).`))
+      } else {
+        console.error(`[transcription.local] ${path.basename(bin)} failed: ${String(stderr).trim().slice(-500)}`)
+        reject(new TranscriptionError('Falha na transcrição local do áudio.'))
+      }
+    })
+  })
+}
+
+export function createLocalTranscriber(): Transcriber {
+  const engine = getEngine()
+  const bin = process.env.WHISPER_LOCAL_BIN || DEFAULT_BINS[engine]
+  const model = process.env.WHISPER_LOCAL_MODEL || ''
+  const threads = String(Number(process.env.WHISPER_LOCAL_THREADS) || Math.min(4, os.cpus().length || 1))
+  const timeoutMs = Number(process.env.WHISPER_LOCAL_TIMEOUT_MS) || 170_000
+  const ffmpeg = process.env.FFMPEG_PATH || 'ffmpeg'
+
+  return {
+    name: 'local',
+    label: `Whisper local (${engine})`,
+    async transcribe({ buffer, extension }: AudioInput): Promise<string> {
+      const dir = await mkdtemp(path.join(os.tmpdir(), 'fnv-whisper-'))
+      try {
+        const input = path.join(dir, `input.${extension}`)
+        const wav = path.join(dir, 'audio.wav')
+        await writeFile(input, buffer)
+
+        const started = Date.now()
+        await run(ffmpeg, ['-nostdin', '-loglevel', 'error', '-y', '-i', input, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wav], FFMPEG_TIMEOUT_MS)
+
+        console.log(`[transcription.local] Transcribing with ${engine} (${path.basename(model)}, ${threads} threads)...`)
+        const remaining = Math.max(10_000, timeoutMs - (Date.now() - started))
+        if (engine === 'whisper.cpp') {
+          await run(bin, ['-m', model, '-f', wav, '-l', 'pt', '-t', threads, '-osrt', '-of', path.join(dir, 'audio'), '-np'], remaining)
+        } else {
+          await run(bin, [wav, '--model', model, '--language', 'pt', '--task', 'transcribe', '--output_format', 'srt', '--output_dir', dir,
+            '--device', 'cpu', '--compute_type', 'int8', '--threads', threads, '--verbose', 'False'], remaining)
+        }
+
+        const srtFile = (await readdir(dir)).find(f => f.endsWith('.srt'))
+        if (!srtFile) throw new TranscriptionError('A transcrição local não gerou o arquivo de legendas.')
+        console.log(`[transcription.local] Done in ${((Date.now() - started) / 1000).toFixed(1)}s`)
+        return await readFile(path.join(dir, srtFile), 'utf8')
+      } finally {
+        await rm(dir, { recursive: true, force: true }).catch(() => {})
+      }
+    },
+  }
+}
+
+export function isLocalTranscriberConfigured(): boolean {
+  return !!process.env.WHISPER_LOCAL_MODEL
+}
@@ -0,0 +1,150 @@
+import 'server-only'
+import { TranscriptionError, type AudioInput, type Transcriber } from './transcription'
+
+/**
+ * Whisper-SRT Portal transcriber.
+ * Uploads audio → polls until done → downloads the .srt.
+ *
+ * Auth strategy:
+ *   1. JWT login (WHISPER_EMAIL + WHISPER_PASSWORD) — works on all endpoints
+ *   2. API Key (WHISPER_SRT_API_KEY) — fallback, requires patched whisper-srt
+ *
+ * API: https://frontend-beryl-gamma-80.vercel.app
+ */
+
+const WHISPER_API_BASE = 'https://frontend-beryl-gamma-80.vercel.app'
+const MAX_POLL_ATTEMPTS = 60       // 60 × 3s = 180s máximo de espera
+const POLL_INTERVAL_MS  = 3_000    // 3 segundos entre checks
+
+// Cache JWT token in memory (valid for 8h by default)
+let cachedJwt: { token: string; expiresAt: number } | null = null
+
+/**
+ * Obtém headers de autenticação para a API Whisper-SRT.
+ * Prioridade: JWT login > API Key
+ */
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const email = process.env.WHISPER_EMAIL
+  const password = process.env.WHISPER_PASSWORD
+  const apiKey = process.env.WHISPER_SRT_API_KEY
+
+  // 1. Tentar JWT login
+  if (email && password) {
+    // Usar cache se ainda válido (com margem de 5 min)
+    if (cachedJwt && Date.now() < cachedJwt.expiresAt - 300_000) {
+      return { 'Authorization': `Bearer ${cachedJwt.token}` }
+    }
+
+    try {
+      console.log('[transcription.portal] Logging in via JWT...')
+      const loginRes = await fetch(`${WHISPER_API_BASE}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      })
+
+      if (loginRes.ok) {
+        const data = await loginRes.json() as { access_token: string }
+        // Cache for 7 hours (default expiry is 8h)
+        cachedJwt = {
+          token: data.access_token,
+          expiresAt: Date.now() + 7 * 60 * 60 * 1000,
+        }
+        console.log('[transcription.portal] JWT obtained successfully')
+        return { 'Authorization': `Bearer ${data.access_token}` }
+      } else {
+        console.warn(`[transcription.portal] JWT login failed (${loginRes.status}), trying API key...`)
+      }
+    } catch (err) {
+      console.warn('[transcription.portal] JWT login error, trying API key...', err)
+    }
+  }
+
+  // 2. Fallback: API Key
+  if (apiKey) {
+    return { 'X-API-Key': apiKey }
+  }
+
+  throw new TranscriptionError('Nenhuma credencial configurada para o Whisper-SRT (WHISPER_EMAIL+WHISPER_PASSWORD ou WHISPER_SRT_API_KEY).')
+}
+
+export function createPortalTranscriber(): Transcriber {
+  return {
+    name: 'portal',
+    label: 'Whisper-SRT Portal',
+    async transcribe({ buffer, mimeType, extension }: AudioInput): Promise<string> {
+      // Obter headers de autenticação (JWT ou API key)
+      const authHeaders = await getAuthHeaders()
+
+      // 1. Upload para Whisper-SRT API via FormData
+      const formData = new FormData()
+      const blob = new Blob([new Uint8Array(buffer)], { type: mimeType })
+      formData.append('file', blob, `audio.${extension}`)
+      formData.append('language', 'pt')
+      formData.append('model', 'small')
+
+      console.log(`[transcription.portal] Uploading to Whisper-SRT...`)
+      const uploadRes = await fetch(`${WHISPER_API_BASE}/api/jobs`, {
+        method: 'POST',
+        headers: { ...authHeaders },
+        body: formData,
+      })
+
+      if (!uploadRes.ok) {
+        const errText = await uploadRes.text()
+        console.error(`[transcription.portal] Upload failed (${uploadRes.status}): ${errText}`)
+        throw new TranscriptionError(`Falha ao enviar áudio para transcrição (${uploadRes.status}).`)
+      }
+
+      const job = await uploadRes.json() as { id: string; status: string }
+      console.log(`[transcription.portal] Job criado: ${job.id}, status: ${job.status}`)
+
+      // 2. Poll até status != PROCESSING
+      let status = job.status
+      let attempts = 0
+
+      while (status === 'PROCESSING' && attempts < MAX_POLL_ATTEMPTS) {
+        await new Promise(r => setTimeout(r, POLL_INTERVAL_MS))
+        attempts++
+
+        const pollRes = await fetch(`${WHISPER_API_BASE}/api/jobs/${job.id}`, {
+          headers: { ...authHeaders },
+        })
+
+        if (!pollRes.ok) {
+          console.warn(`[transcription.portal] Poll failed (${pollRes.status}), retrying...`)
+          continue
+        }
+
+        const pollData = await pollRes.json() as { status: string }
+        status = pollData.status
+        console.log(`[transcription.portal] Poll #${attempts}: ${status}`)
+      }
+
+      if (status !== 'DONE') {
+        const reason = attempts >= MAX_POLL_ATTEMPTS
+          ? 'Tempo esgotado aguardando transcrição.'
+          : `Transcrição falhou (status: ${status}).`
+        console.error(`[transcription.portal] ${reason}`)
+        throw new TranscriptionError(reason)
+      }
+
+      // 3. Download do .srt
+      console.log(`[transcription.portal] Downloading SRT...`)
+      const downloadRes = await fetch(`${WHISPER_API_BASE}/api/jobs/${job.id}/download`, {
+        headers: { ...authHeaders },
+      })
+
+      if (!downloadRes.ok) {
+        console.error(`[transcription.portal] Download failed (${downloadRes.status})`)
+        throw new TranscriptionError('Falha ao baixar a transcrição gerada.')
+      }
+
+      return downloadRes.text()
+    },
+  }
+}
+
+export function isPortalTranscriberConfigured(): boolean {
+  return !!(process.env.WHISPER_EMAIL && process.env.WHISPER_PASSWORD) || !!process.env.WHISPER_SRT_API_KEY
+}
@@ -0,0 +1,94 @@
+import 'server-only'
+import { createPortalTranscriber, isPortalTranscriberConfigured } from './transcription.portal'
+import { createLocalTranscriber, isLocalTranscriberConfigured } from './transcription.local'
+
+/**
+ * Pluggable speech-to-text layer for audio uploads.
+ *
+ * The audio extractor talks to a `Transcriber` that returns SRT; the backend
+ * is chosen by TRANSCRIPTION_PROVIDER:
+ *   - portal (default) — Whisper-SRT Portal (upload → poll → download)
+ *   - local  — whisper.cpp or faster-whisper run as a CPU-only process on
+ *              this machine (no network needed)
+ *
+ * TRANSCRIPTION_FALLBACK_PROVIDER (optional) is tried when the primary one
+ * fails, e.g. local when the portal is down.
+ */
+
+export type TranscriberName = 'portal' | 'local'
+
+export interface AudioInput {
+  buffer: Buffer
+  mimeType: string
+  /** File extension matching mimeType (mp3, wav, m4a…) */
+  extension: string
+}
+
+export interface Transcriber {
+  name: TranscriberName
+  /** Human-readable label used in logs and warnings */
+  label: string
+  /** Transcribe Portuguese speech and return the SRT text */
+  transcribe(audio: AudioInput): Promise<string>
+}
+
+/**
+ * Transcription failure whose message can be shown to the user (pt-BR).
+ */
+export class TranscriptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TranscriptionError'
+  }
+}
+
+const TRANSCRIBER_NAMES: TranscriberName[] = ['portal', 'local']
+
+function parseTranscriberName(value: string | undefined, fallback: TranscriberName | null): TranscriberName | null {
+  const name = (value || '').trim().toLowerCase()
+  if (!name) return fallback
+  if ((TRANSCRIBER_NAMES as string[]).includes(name)) return name as TranscriberName
+  throw new TranscriptionError(`Provedor de transcrição desconhecido: ${name} (use portal ou local).`)
+}
+
+function createTranscriber(name: TranscriberName): Transcriber {
+  switch (name) {
+    case 'portal': return createPortalTranscriber()
+    case 'local': return createLocalTranscriber()
+  }
+}
+
+function isTranscriberConfigured(name: TranscriberName): boolean {
+  switch (name) {
+    case 'portal': return isPortalTranscriberConfigured()
+    case 'local': return isLocalTranscriberConfigured()
+  }
+}
+
+/**
+ * Env vars missing for a transcriber, for error messages.
+ */
+function getTranscriberConfigHint(name: TranscriberName): string {
+  switch (name) {
+    case 'portal': return 'WHISPER_EMAIL+WHISPER_PASSWORD ou WHISPER_SRT_API_KEY'
+    case 'local': return 'WHISPER_LOCAL_MODEL'
+  }
+}
+
+/**
+ * Configured transcribers in the order they should be tried (primary, then
+ * fallback). Throws TranscriptionError when the primary one is not configured.
+ */
+export function getTranscribers(): Transcriber[] {
+  const primary = parseTranscriberName(process.env.TRANSCRIPTION_PROVIDER, 'portal') as TranscriberName
+  if (!isTranscriberConfigured(primary)) {
+    throw new TranscriptionError(`Serviço de transcrição de áudio não configurado. Configure ${getTranscriberConfigHint(primary)}.`)
+  }
+
+  const transcribers = [createTranscriber(primary)]
+  const fallback = parseTranscriberName(process.env.TRANSCRIPTION_FALLBACK_PROVIDER, null)
+  if (fallback && fallback !== primary && isTranscriberConfigured(fallback)) {
+    transcribers.push(createTranscriber(fallback))
+  }
+  return transcribers
+}
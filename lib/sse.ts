@@ -0,0 +1,51 @@
+/**
+ * Minimal Server-Sent Events helpers shared by the API routes (encoding)
+ * and the browser (parsing a fetch() response body — EventSource cannot POST).
+ */
+
+export const SSE_CONTENT_TYPE = 'text/event-stream'
+
+/** True when the client asked for an event stream instead of a single JSON response */
+export function acceptsEventStream(req: Request): boolean {
+  return (req.headers.get('accept') || '').includes(SSE_CONTENT_TYPE)
+}
+
+/** One SSE frame with a JSON payload */
+export function encodeSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Read an SSE body until it ends, calling onEvent for each frame.
+ * Comment lines (`: ping`) are skipped; `data` is JSON-decoded.
+ */
+export async function readSseStream(body: ReadableStream<Uint8Array>, onEvent: (event: string, data: any) => void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const dispatch = (frame: string) => {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+    }
+    if (data.length === 0) return
+    let payload: any = data.join('\n')
+    try { payload = JSON.parse(payload) } catch { /* plain-text data */ }
+    onEvent(event, payload)
+  }
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n')
+    let idx: number
+    while ((idx = buffer.indexOf('\n\n')) !== -1) {
+      dispatch(buffer.slice(0, idx))
+      buffer = buffer.slice(idx + 2)
+    }
+  }
+  if (buffer.trim()) dispatch(buffer)
+}
@@ -21,3 +21,16 @@ export function createSupabaseServerClient() {
     }
   )
 }
+
+/**
+ * Logged-in user from the Supabase session cookie, or null.
+ */
+export async function getSessionUser() {
+  try {
+    const supabase = createSupabaseServerClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    return user
+  } catch {
+    return null
+  }
+}
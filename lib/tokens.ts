@@ -2,6 +2,11 @@ import crypto from 'crypto'
 
 const SECRET = process.env.UNSUB_SECRET || process.env.TOKEN_SECRET || 'default-dev-secret-change-me'
 
+/** Whether a real secret is set (tokens that grant work must not use the dev default) */
+export function isTokenSecretConfigured(): boolean {
+  return Boolean(process.env.UNSUB_SECRET || process.env.TOKEN_SECRET)
+}
+
 /**
  * Create a signed token encoding arbitrary JSON payload + expiry.
  * Format: base64url(JSON).hmac_hex
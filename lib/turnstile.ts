@@ -0,0 +1,98 @@
+import 'server-only'
+import crypto from 'crypto'
+
+/**
+ * Cloudflare Turnstile server-side verification.
+ *
+ * The browser widget returns a single-use token that the client sends as
+ * `turnstileToken` in the JSON body. Server-to-server callers can skip the
+ * challenge with `Authorization: Bearer <ANALYZE_API_KEY>` (or `X-API-Key`).
+ *
+ * When TURNSTILE_SECRET_KEY is not set (local dev) verification is skipped.
+ */
+
+const SECRET = process.env.TURNSTILE_SECRET_KEY || ''
+const API_KEY = process.env.ANALYZE_API_KEY || ''
+const VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify'
+const VERIFY_TIMEOUT_MS = 5_000
+
+export interface HumanCheckResult {
+  ok: boolean
+  /** How the request was let through (only when ok) */
+  via?: 'turnstile' | 'api_key' | 'disabled'
+  error?: 'CAPTCHA_REQUIRED' | 'CAPTCHA_FAILED'
+  message?: string
+  status?: number
+}
+
+export function isTurnstileEnabled(): boolean {
+  return Boolean(SECRET)
+}
+
+/** API key sent by the caller, from `Authorization: Bearer` or `X-API-Key` */
+export function getRequestApiKey(req: Request): string {
+  const auth = req.headers.get('authorization') || ''
+  if (auth.toLowerCase().startsWith('bearer ')) return auth.slice(7).trim()
+  return req.headers.get('x-api-key')?.trim() || ''
+}
+
+/** Whether the request carries the server-to-server ANALYZE_API_KEY */
+export function hasValidApiKey(req: Request): boolean {
+  const provided = getRequestApiKey(req)
+  if (!API_KEY || !provided) return false
+  const a = Buffer.from(provided)
+  const b = Buffer.from(API_KEY)
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+/**
+ * Validate a Turnstile token with Cloudflare. Fails closed on network errors.
+ */
+export async function verifyTurnstileToken(token: string, ip?: string): Promise<boolean> {
+  const form = new URLSearchParams({ secret: SECRET, response: token })
+  if (ip && ip !== 'unknown') form.set('remoteip', ip)
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), VERIFY_TIMEOUT_MS)
+  try {
+    const res = await fetch(VERIFY_URL, { method: 'POST', body: form, signal: controller.signal })
+    const data = await res.json() as { success?: boolean; 'error-codes'?: string[] }
+    if (!data.success) {
+      console.warn('[turnstile] verification rejected:', data['error-codes']?.join(',') || res.status)
+    }
+    return Boolean(data.success)
+  } catch (err) {
+    console.error('[turnstile] verification request failed:', err)
+    return false
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Anti-bot gate for public POST routes: valid API key, or a valid Turnstile token.
+ */
+export async function verifyHuman(req: Request, token: unknown, ip?: string): Promise<HumanCheckResult> {
+  if (hasValidApiKey(req)) return { ok: true, via: 'api_key' }
+  if (!isTurnstileEnabled()) return { ok: true, via: 'disabled' }
+
+  if (typeof token !== 'string' || !token.trim()) {
+    return {
+      ok: false,
+      error: 'CAPTCHA_REQUIRED',
+      message: 'Confirme que você não é um robô antes de continuar.',
+      status: 403,
+    }
+  }
+
+  if (!(await verifyTurnstileToken(token.trim(), ip))) {
+    return {
+      ok: false,
+      error: 'CAPTCHA_FAILED',
+      message: 'Verificação anti-bot falhou ou expirou. Recarregue o desafio e tente novamente.',
+      status: 403,
+    }
+  }
+
+  return { ok: true, via: 'turnstile' }
+}
@@ -0,0 +1,7 @@
+/** Public base URL of the app (no trailing slash) */
+export const APP_URL = (process.env.NEXT_PUBLIC_APP_URL || 'https://fakenewsverificaton.com.br').replace(/\/+$/, '')
+
+/** Canonical permalink of an analysis (`/result/[id]`) */
+export function getResultUrl(id: string): string {
+  return `${APP_URL}/result/${encodeURIComponent(id)}`
+}
@@ -1,21 +1,67 @@
 import { z } from 'zod'
+import { VERDICTS, normalizeVerdict } from '../verdicts'
+import { CLAIM_TYPES, normalizeClaimType } from '../claims'
 
 // ── URL validation helper ──
 const urlSchema = z.string().url('URL inválida.')
 
+// ── Cloudflare Turnstile token (checked in the route, not by Zod) ──
+export const turnstileTokenSchema = z.string().max(2048).optional()
+
 // ── Analyze endpoint schema ──
 export const analyzeSchema = z.object({
-  inputType: z.enum(['text', 'link', 'image', 'audio'], {
+  inputType: z.enum(['text', 'link', 'image', 'audio', 'pdf'], {
     required_error: 'Tipo de entrada obrigatório.',
-    invalid_type_error: 'Tipo de entrada inválido. Use: text, link, image ou audio.',
+    invalid_type_error: 'Tipo de entrada inválido. Use: text, link, image, audio ou pdf.',
   }),
   content: z.string()
     .min(1, 'Conteúdo não pode estar vazio.')
     .max(4_500_000, 'Conteúdo excede o limite de ~4.5 MB.'),
+  // Skip the fingerprint cache and re-run the model (logged-in users only)
+  force: z.boolean().optional(),
+  turnstileToken: turnstileTokenSchema,
 })
 
 export type AnalyzeInput = z.infer<typeof analyzeSchema>
 
+// ── Async analysis job schema (/api/jobs) ──
+export const analyzeJobSchema = analyzeSchema.extend({
+  // Completion callback (API key callers only), signed with the job's webhookSecret
+  webhookUrl: z.string().url('URL de webhook inválida.').max(2048, 'URL de webhook muito longa.').optional(),
+})
+
+// ── Batch analysis schema (/api/batch) ──
+export const BATCH_MAX_ITEMS = 25
+export const BATCH_ITEM_MAX_CHARS = 20_000
+
+export const batchItemSchema = z.object({
+  inputType: z.enum(['text', 'link'], {
+    required_error: 'Tipo de entrada obrigatório.',
+    invalid_type_error: 'Tipo de entrada inválido. Lotes aceitam: text ou link.',
+  }),
+  content: z.string()
+    .trim()
+    .min(1, 'Conteúdo não pode estar vazio.')
+    .max(BATCH_ITEM_MAX_CHARS, 'Conteúdo excede 20.000 caracteres.'),
+})
+
+export const batchSchema = z.object({
+  items: z.array(batchItemSchema)
+    .min(1, 'Envie ao menos um item.')
+    .max(BATCH_MAX_ITEMS, `Máximo de ${BATCH_MAX_ITEMS} itens por lote.`),
+})
+
+export type BatchItemInput = z.infer<typeof batchItemSchema>
+
+// ── WhatsApp chat export (/api/batch with inputType whatsapp_export) ──
+export const whatsappExportSchema = z.object({
+  inputType: z.literal('whatsapp_export'),
+  // Exported .txt content, or the .zip export as data:application/zip;base64,…
+  content: z.string()
+    .min(1, 'Conteúdo não pode estar vazio.')
+    .max(4_500_000, 'Arquivo excede o limite de ~4.5 MB.'),
+})
+
 // ── Subscribe endpoint schema ──
 export const subscribeSchema = z.object({
   name: z.string().max(100, 'Nome muito longo.').nullable().optional(),
@@ -28,18 +74,97 @@ export const subscribeSchema = z.object({
   acceptedTerms: z.literal(true, {
     errorMap: () => ({ message: 'Você precisa aceitar os Termos e Política de Privacidade.' }),
   }),
+  turnstileToken: turnstileTokenSchema,
 })
 
 export type SubscribeInput = z.infer<typeof subscribeSchema>
 
+// ── Subscribe cancel (opt-out request) schema ──
+export const subscribeCancelSchema = z.object({
+  email: z.string().email('E-mail inválido.'),
+  turnstileToken: turnstileTokenSchema,
+})
+
 // ── Alerts suggest schema ──
 export const alertsSuggestSchema = z.object({
   title: z.string().min(3, 'Título muito curto.').max(500, 'Título muito longo.'),
   description: z.string().max(2000, 'Descrição muito longa.').optional(),
+  turnstileToken: turnstileTokenSchema,
 })
 
 export type AlertsSuggestInput = z.infer<typeof alertsSuggestSchema>
 
+// ── API key creation (dashboard) ──
+export const apiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Dê um nome para a chave.').max(60, 'Nome muito longo.'),
+})
+
+// ── Analysis result schema (model output) ──
+
+const scoreSchema = z.number({ invalid_type_error: 'must be a number' }).min(0).max(100)
+
+export const analysisMetaSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  inputType: z.string(),
+  language: z.string(),
+  mode: z.string(),
+  warnings: z.array(z.string()),
+}).partial().passthrough()
+
+export const analysisScoresSchema = z.object({
+  fakeProbability: scoreSchema,
+  verifiableTruth: scoreSchema,
+  biasFraming: scoreSchema,
+  manipulationRisk: scoreSchema,
+})
+
+export const analysisSummarySchema = z.object({
+  headline: z.string().min(1),
+  oneParagraph: z.string(),
+  // Legacy three-level labels are mapped instead of triggering a repair round-trip
+  verdict: z.preprocess(normalizeVerdict, z.enum(VERDICTS)),
+})
+
+export const analysisClaimSchema = z.object({
+  claim: z.string().min(1),
+  assessment: z.string(),
+  confidence: scoreSchema,
+  verdict: z.preprocess(normalizeVerdict, z.enum(VERDICTS)),
+  type: z.preprocess(normalizeClaimType, z.enum(CLAIM_TYPES)),
+  // Exact excerpt of the analyzed text; located server-side into `span`
+  quote: z.string().nullable().optional(),
+}).passthrough()
+
+export const externalCheckSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  publisher: z.string(),
+  summary: z.string().optional(),
+})
+
+export const analysisResultSchema = z.object({
+  meta: analysisMetaSchema.optional(),
+  scores: analysisScoresSchema,
+  summary: analysisSummarySchema,
+  claims: z.array(analysisClaimSchema),
+  similar: z.object({
+    searchQueries: z.array(z.string()),
+    externalChecks: z.array(externalCheckSchema),
+  }),
+  recommendations: z.array(z.string()),
+})
+
+export type AnalysisResult = z.infer<typeof analysisResultSchema>
+
+/**
+ * Flatten Zod issues into short "path: message" lines.
+ * Used to tell the model what to fix in its previous answer.
+ */
+export function formatZodIssues(error: z.ZodError, max = 10): string[] {
+  return error.issues.slice(0, max).map(i => `${i.path.join('.') || '(root)'}: ${i.message}`)
+}
+
 // ── Sanitize text for LLM ──
 
 /**
@@ -0,0 +1,321 @@
+import { z } from 'zod'
+import {
+  analysisClaimSchema,
+  analysisMetaSchema,
+  analysisResultSchema,
+} from './index'
+
+// ── Error codes returned as `{ ok: false, error, message }` ──
+
+export const API_ERROR_CODES = {
+  VALIDATION: { status: 400, description: 'Invalid request body or parameters. `message` carries the first Zod issue.' },
+  AUTH_REQUIRED: { status: 401, description: 'A logged-in session is required (dashboard routes, `force: true`).' },
+  INVALID_API_KEY: { status: 401, description: 'The `fnv_live_…` API key is unknown or was revoked.' },
+  CAPTCHA_REQUIRED: { status: 403, description: 'Missing `turnstileToken` (browser callers without an API key).' },
+  CAPTCHA_FAILED: { status: 403, description: 'The Turnstile token was rejected or expired.' },
+  NOT_FOUND: { status: 404, description: 'The resource does not exist or is not owned by the caller.' },
+  KEY_LIMIT: { status: 409, description: 'Maximum number of active API keys reached.' },
+  EXTRACTION_FAILED: { status: 422, description: 'Content could not be extracted from the link or audio.' },
+  UNSUPPORTED_INPUT: { status: 422, description: 'The configured AI provider cannot handle this input type.' },
+  RATE_LIMITED: { status: 429, description: 'Per-IP rate limit exceeded. See `Retry-After`.' },
+  QUOTA_EXCEEDED: { status: 429, description: 'Daily or monthly API key quota exhausted. See `Retry-After`.' },
+  ANALYZE_FAILED: { status: 500, description: 'Unexpected error while analyzing.' },
+  API_KEY_ERROR: { status: 500, description: 'API key storage error.' },
+  DB_ERROR: { status: 500, description: 'Database write failed.' },
+  INTERNAL: { status: 500, description: 'Unexpected server error.' },
+  SERVER_MISCONFIG: { status: 503, description: 'The AI provider is not configured on the server.' },
+  BATCH_DEADLINE: { status: 503, description: 'Batch item not started before the batch time limit. Resubmit it.' },
+} as const
+
+export type ApiErrorCode = keyof typeof API_ERROR_CODES
+
+const errorCodes = Object.keys(API_ERROR_CODES) as [ApiErrorCode, ...ApiErrorCode[]]
+
+export const apiErrorSchema = z.object({
+  ok: z.literal(false),
+  error: z.enum(errorCodes),
+  message: z.string().describe('Human-readable message in Portuguese (pt-BR).'),
+})
+
+export const okMessageSchema = z.object({
+  ok: z.literal(true),
+  message: z.string(),
+})
+
+// ── /api/check ──
+
+export const claimSpanSchema = z.object({
+  start: z.number().int(),
+  end: z.number().int(),
+})
+
+export const ocrBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+}).describe('Region as fractions (0-1) of the image width and height.')
+
+export const analyzeResponseSchema = analysisResultSchema.extend({
+  ok: z.literal(true),
+  meta: analysisMetaSchema.and(z.object({
+    fingerprint: z.string().optional(),
+    provider: z.string().optional(),
+    model: z.string().optional(),
+    providerLabel: z.string().optional(),
+    sourceUrl: z.string().optional(),
+    cached: z.boolean().optional(),
+    cachedAt: z.string().optional(),
+    nearDuplicate: z.object({ analysisId: z.string().optional(), distance: z.number().int() }).optional(),
+    validationErrors: z.array(z.string()).optional(),
+    promptInjection: z.object({
+      patterns: z.array(z.string()).describe('Kinds of instruction addressed to an AI found in the content (pt-BR).'),
+    }).optional().describe('Set when the content tries to steer the analysis; manipulationRisk is raised to at least 70.'),
+    pdf: z.object({
+      pageCount: z.number().int(),
+      pagesAnalyzed: z.number().int(),
+      title: z.string().optional(),
+      author: z.string().optional(),
+      creator: z.string().optional(),
+      producer: z.string().optional(),
+      createdAt: z.string().optional(),
+      modifiedAt: z.string().optional(),
+      incrementalUpdates: z.number().int(),
+      signals: z.array(z.string()).describe('Forensic observations from the metadata (pt-BR).'),
+    }).optional().describe('PDF inputs (upload or link) only.'),
+    transcript: z.array(z.object({
+      index: z.string().describe('SRT segment index (1-based caption segment for videos).'),
+      start: z.number().describe('Seconds from the start of the audio or video.'),
+      end: z.number(),
+      text: z.string(),
+      instrumental: z.boolean().describe('Music-only segment (🎵), left out of the analysis.'),
+    })).optional().describe('Audio and YouTube inputs only: transcript segments with their timestamps.'),
+    youtube: z.object({
+      videoId: z.string(),
+      url: z.string().describe('Short link (youtu.be); append ?t=<seconds> to open at a moment.'),
+      title: z.string().optional(),
+      channel: z.string().optional(),
+      channelId: z.string().optional(),
+      publishedAt: z.string().optional(),
+      durationSeconds: z.number().int().optional(),
+      viewCount: z.number().int().optional(),
+      description: z.string().optional(),
+      chapters: z.array(z.object({ start: z.number().int(), title: z.string() })).describe('Chapters listed in the description.'),
+    }).optional().describe('YouTube links only: public metadata of the video.'),
+    post: z.object({
+      platform: z.enum(['x', 'instagram', 'tiktok', 'telegram']),
+      url: z.string().describe('Canonical URL of the post.'),
+      author: z.string().describe('Handle without "@" (channel username on Telegram).'),
+      authorName: z.string().optional(),
+      publishedAt: z.string().optional(),
+      mediaUrls: z.array(z.string()).describe('Attached photos/videos (not analyzed; CDN links may expire).'),
+      forwardedFrom: z.string().optional().describe('Telegram: origin of a forwarded message.'),
+    }).optional().describe('Links to public posts on X, Instagram, TikTok or Telegram only.'),
+    ocr: z.object({
+      text: z.string(),
+      width: z.number().int().describe('Image width in pixels.'),
+      height: z.number().int().describe('Image height in pixels.'),
+      confidence: z.number().describe('Mean OCR confidence (0-100).'),
+      lines: z.array(z.object({
+        text: z.string(),
+        confidence: z.number(),
+        box: ocrBoxSchema,
+        start: z.number().int().describe('Offset of the line in `text`.'),
+      })),
+    }).optional().describe('Image inputs only: text layer recognized locally (OCR).'),
+    forensics: z.object({
+      format: z.string().optional(),
+      width: z.number().int().optional(),
+      height: z.number().int().optional(),
+      metadata: z.object({
+        hasExif: z.boolean(),
+        capturedAt: z.string().optional(),
+        modifiedAt: z.string().optional(),
+        make: z.string().optional(),
+        model: z.string().optional(),
+        software: z.string().optional(),
+        hasGps: z.boolean().describe('GPS coordinates present in the file (never stored).'),
+      }),
+      phash: z.string().optional().describe('64-bit perceptual hash (hex).'),
+      ela: z.object({
+        meanError: z.number(),
+        hotspotRatio: z.number().describe('Share of blocks whose re-compression error stands out.'),
+        suspicious: z.boolean(),
+      }).optional().describe('Error level analysis (JPEG only).'),
+      similar: z.array(z.object({
+        analysisId: z.string(),
+        createdAt: z.string(),
+        verdict: z.string(),
+        distance: z.number().int().describe('Hamming distance between the perceptual hashes.'),
+      })).describe('Previous analyses of the same picture.'),
+      signals: z.array(z.string()).describe('Noteworthy observations (pt-BR), also in meta.warnings.'),
+    }).optional().describe('Image inputs only: technical signals (metadata, perceptual hash, ELA).'),
+  })),
+  claims: z.array(analysisClaimSchema.extend({
+    span: claimSpanSchema.nullable().optional().describe('Character offsets of `quote` in the analyzed text.'),
+    segmentIndex: z.string().nullable().optional().describe('Transcript segment where the quote starts (audio and YouTube).'),
+    time: z.object({ start: z.number(), end: z.number() }).nullable().optional().describe('Seconds of the audio or video over which the quote was spoken.'),
+    page: z.number().int().nullable().optional().describe('PDF page where the quote appears.'),
+    region: ocrBoxSchema.nullable().optional().describe('Image region (OCR) where the quote appears.'),
+  })),
+  reportMarkdown: z.string(),
+  resultId: z.string().uuid().optional().describe('Present when the analysis was persisted.'),
+  resultUrl: z.string().url().optional().describe('Public permalink of the result.'),
+})
+
+/**
+ * `event: progress` payloads of the /api/check event stream (Accept: text/event-stream),
+ * followed by one `event: result` (AnalyzeResponse) or `event: error` (ApiError).
+ */
+export const analysisProgressSchema = z.discriminatedUnion('step', [
+  z.object({ step: z.literal('extracting'), inputType: z.string() }),
+  z.object({
+    step: z.literal('extracted'),
+    chars: z.number().int().describe('Length of the extracted text or transcript.'),
+    segments: z.number().int().optional().describe('Number of transcript segments (audio and YouTube).'),
+    sourceUrl: z.string().optional(),
+  }),
+  z.object({ step: z.literal('cached'), cachedAt: z.string(), nearDuplicate: z.boolean() }),
+  z.object({
+    step: z.literal('model'),
+    provider: z.string(),
+    model: z.string(),
+    attempt: z.number().int().describe('0 for the first call, then repair attempts.'),
+    part: z.object({ index: z.number().int(), total: z.number().int() }).optional()
+      .describe('Set when long content is analyzed in chunks (1-based index).'),
+  }),
+  z.object({
+    step: z.literal('summary'),
+    summary: z.object({ headline: z.string(), oneParagraph: z.string(), verdict: z.string() }),
+    scores: z.record(z.number()),
+    part: z.object({ done: z.number().int(), total: z.number().int() })
+      .describe('Long content: preliminary merge of the chunks analyzed so far (sent after each chunk).'),
+  }),
+])
+
+export type AnalysisProgress = z.infer<typeof analysisProgressSchema>
+
+// ── /api/jobs ──
+
+export const JOB_STATUSES = ['queued', 'extracting', 'analyzing', 'done', 'failed'] as const
+
+export type JobStatus = typeof JOB_STATUSES[number]
+
+export const jobCreateResponseSchema = z.object({
+  ok: z.literal(true),
+  jobId: z.string().uuid(),
+  status: z.literal('queued'),
+  statusUrl: z.string().describe('Relative URL to poll (GET).'),
+  webhookSecret: z.string().optional().describe('HMAC secret for `X-FNV-Signature` — returned only when `webhookUrl` was set.'),
+})
+
+export const jobSchema = z.object({
+  id: z.string().uuid(),
+  status: z.enum(JOB_STATUSES),
+  progress: z.number().int().min(0).max(100),
+  inputType: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  finishedAt: z.string().nullable(),
+  resultId: z.string().uuid().optional(),
+  resultUrl: z.string().url().optional(),
+  result: analyzeResponseSchema.optional().describe('Present when status is `done`.'),
+  error: z.object({ code: z.enum(errorCodes), message: z.string() }).optional().describe('Present when status is `failed`.'),
+  webhook: z.object({ status: z.enum(['pending', 'delivered', 'failed']).nullable(), attempts: z.number().int() }).optional(),
+})
+
+export const jobResponseSchema = z.object({
+  ok: z.literal(true),
+  job: jobSchema,
+})
+
+export const jobWebhookPayloadSchema = z.object({
+  event: z.enum(['job.completed', 'job.failed']),
+  job: jobSchema,
+})
+
+// ── /api/batch ──
+
+const batchItemBase = z.object({
+  index: z.number().int().describe('Position of the item in the request.'),
+  inputType: z.string(),
+  duplicateOf: z.number().int().optional().describe('Index of the earlier item with the same fingerprint; the result is shared.'),
+})
+
+export const batchItemResultSchema = z.union([
+  batchItemBase.extend({ ok: z.literal(true), result: analyzeResponseSchema }),
+  batchItemBase.extend({ ok: z.literal(false), error: z.enum(errorCodes), message: z.string() }),
+])
+
+export const batchResponseSchema = z.object({
+  ok: z.literal(true),
+  total: z.number().int(),
+  unique: z.number().int().describe('Items left after fingerprint deduplication (what the quota was charged).'),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  items: z.array(batchItemResultSchema),
+})
+
+// ── /api/batch with inputType whatsapp_export ──
+
+const whatsappMessageBase = z.object({
+  rank: z.number().int().describe('1 = highest fake probability.'),
+  kind: z.enum(['forward', 'link']).describe('Forwarded-looking message or shared link.'),
+  inputType: z.string(),
+  excerpt: z.string().describe('Message text (up to 500 chars) or the link.'),
+  occurrences: z.number().int().describe('Times it was posted in the chat.'),
+  sharedBy: z.number().int().describe('Distinct participants who posted it.'),
+  firstSeenAt: z.string().describe('Local time of the exporting phone, without time zone.'),
+  lastSeenAt: z.string(),
+})
+
+export const whatsappMessageResultSchema = z.union([
+  whatsappMessageBase.extend({ ok: z.literal(true), result: analyzeResponseSchema }),
+  whatsappMessageBase.extend({ ok: z.literal(false), error: z.enum(errorCodes), message: z.string() }),
+])
+
+export const whatsappExportResponseSchema = z.object({
+  ok: z.literal(true),
+  inputType: z.literal('whatsapp_export'),
+  chat: z.object({
+    format: z.enum(['android', 'ios']),
+    messages: z.number().int(),
+    participants: z.number().int(),
+    from: z.string().optional(),
+    to: z.string().optional(),
+  }),
+  found: z.number().int().describe('Candidate messages and links found (deduplicated).'),
+  analyzed: z.number().int().describe('Candidates analyzed (what the quota was charged), most shared first.'),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  warnings: z.array(z.string()),
+  items: z.array(whatsappMessageResultSchema).describe('Ranked by risk.'),
+})
+
+// ── /api/keys ──
+
+export const apiKeyRecordSchema = z.object({
+  id: z.string().uuid(),
+  owner_id: z.string().uuid(),
+  name: z.string(),
+  key_prefix: z.string(),
+  daily_limit: z.number().int(),
+  monthly_limit: z.number().int(),
+  created_at: z.string(),
+  last_used_at: z.string().nullable(),
+  revoked_at: z.string().nullable(),
+})
+
+export const apiKeyListResponseSchema = z.object({
+  ok: z.literal(true),
+  keys: z.array(apiKeyRecordSchema.extend({
+    usage: z.object({ today: z.number().int(), month: z.number().int(), total: z.number().int() }),
+  })),
+})
+
+export const apiKeyCreateResponseSchema = z.object({
+  ok: z.literal(true),
+  key: z.string().describe('Plaintext key — returned only once.'),
+  record: apiKeyRecordSchema,
+  message: z.string(),
+})
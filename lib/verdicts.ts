@@ -0,0 +1,73 @@
+/**
+ * Five-level verdict scale, as published in /methodology.
+ * Shared by the pipeline (prompt + report), the API and the UI.
+ */
+
+export const VERDICTS = ['Verdadeiro', 'Parcialmente verdadeiro', 'Enganoso', 'Falso', 'Inconclusivo'] as const
+
+export type Verdict = typeof VERDICTS[number]
+
+/** Legacy three-level labels → current scale */
+const LEGACY_VERDICTS: Record<string, Verdict> = {
+  'provavel fake': 'Falso',
+  'provável fake': 'Falso',
+  'provavel verdadeiro': 'Verdadeiro',
+  'provável verdadeiro': 'Verdadeiro',
+}
+
+/**
+ * Map any verdict string (current, legacy or different casing) to the scale.
+ * Returns the input unchanged when it is not recognized.
+ */
+export function normalizeVerdict(value: unknown): unknown {
+  if (typeof value !== 'string') return value
+  const key = value.trim().toLowerCase()
+  const current = VERDICTS.find(v => v.toLowerCase() === key)
+  if (current) return current
+  return LEGACY_VERDICTS[key] ?? value
+}
+
+/** Verdict as a valid scale label, defaulting to Inconclusivo */
+export function toVerdict(value: unknown): Verdict {
+  const v = normalizeVerdict(value)
+  return (VERDICTS as readonly unknown[]).includes(v) ? v as Verdict : 'Inconclusivo'
+}
+
+/** Emoji used in reports */
+export function verdictEmoji(value: unknown): string {
+  switch (toVerdict(value)) {
+    case 'Verdadeiro': return '✅'
+    case 'Parcialmente verdadeiro': return '🟡'
+    case 'Enganoso': return '⚠️'
+    case 'Falso': return '❌'
+    default: return '❔'
+  }
+}
+
+/** Tailwind classes for the verdict badge */
+export function verdictBadgeClass(value: unknown): string {
+  switch (toVerdict(value)) {
+    case 'Verdadeiro': return 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+    case 'Parcialmente verdadeiro': return 'bg-lime-100 text-lime-700 dark:bg-lime-900/30 dark:text-lime-400'
+    case 'Enganoso': return 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400'
+    case 'Falso': return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
+    default: return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+  }
+}
+
+/** Hex color for places without Tailwind (OG images, e-mails) */
+export function verdictColor(value: unknown): string {
+  switch (toVerdict(value)) {
+    case 'Verdadeiro': return '#22c55e'
+    case 'Parcialmente verdadeiro': return '#84cc16'
+    case 'Enganoso': return '#f97316'
+    case 'Falso': return '#ef4444'
+    default: return '#f59e0b'
+  }
+}
+
+/** Verdicts that feed "Fakes em alta" (analyses.is_flagged) */
+export function isFlaggedVerdict(value: unknown): boolean {
+  const v = toVerdict(value)
+  return v === 'Falso' || v === 'Enganoso'
+}
@@ -0,0 +1,321 @@
+import 'server-only'
+import { strFromU8, unzipSync } from 'fflate'
+import { BATCH_MAX_ITEMS, type BatchItemInput } from './validations'
+import { dedupeBatch, type BatchItemResult } from './batch'
+
+/**
+ * WhatsApp chat export ingestion ("Exportar conversa", .txt or .zip).
+ *
+ * The export does not mark forwarded messages, so candidates are picked
+ * heuristically: long messages, chain-letter wording ("repassem",
+ * "URGENTE"…) and texts posted more than once, plus every shared link.
+ * Candidates are deduplicated with the batch fingerprint and the most
+ * widespread ones are analyzed through the batch flow.
+ */
+
+/** Messages analyzed per export (each one costs a request, like a batch item) */
+export const WHATSAPP_MAX_CANDIDATES = BATCH_MAX_ITEMS
+
+const MIN_FORWARD_CHARS = 80
+const LONG_MESSAGE_CHARS = 280
+const EXCERPT_CHARS = 500
+
+/** Decompressed size limits for .zip exports (a year of busy group chat is ~2 MB) */
+const ZIP_MAX_ENTRY_BYTES = 4 * 1024 * 1024
+const ZIP_MAX_TOTAL_BYTES = 8 * 1024 * 1024
+
+/** Chain-letter wording, matched on the normalized text (no accents, lowercase) */
+const CHAIN_MARKERS = [
+  'encaminh', 'repass', 'compartilh', 'divulg', 'urgente', 'atencao', 'nao deixe de',
+  'mande para', 'envie para', 'viraliz', 'antes que apaguem', 'antes que tirem', 'a midia nao mostra',
+  'ninguem esta falando', 'forwarded', 'share this', 'pass it on',
+]
+
+/** Links that are not content (group invites, WhatsApp itself) */
+const IGNORED_LINK_HOSTS = ['chat.whatsapp.com', 'wa.me', 'whatsapp.com']
+
+/** Android: `12/03/2024 14:35 - ` · iOS: `[12/03/2024, 14:35:12] ` (also 12h clocks and 2-digit years) */
+const DATE_TIME = String.raw`(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4}),?\s(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s?([AaPp])\.?\s?[Mm]\.?)?`
+const ANDROID_LINE = new RegExp(`^${DATE_TIME} - (.*)$`)
+const IOS_LINE = new RegExp(`^\\[${DATE_TIME}\\] (.*)$`)
+
+const MEDIA_PLACEHOLDERS = [
+  /^<(?:m[íi]dia oculta|media omitted|arquivo de m[íi]dia oculto)>$/i,
+  /^(?:imagem|v[íi]deo|[áa]udio|figurinha|documento|gif|contato|image|video|audio|sticker|document|contact card) (?:ocultad[oa]|omitid[oa]|omitted)$/i,
+  /^<anexado: .+>$/i,
+  /^<attached: .+>$/i,
+  /\((?:arquivo anexado|file attached)\)$/i,
+  /^(?:esta mensagem foi apagada|voc[êe] apagou esta mensagem|this message was deleted|you deleted this message)\.?$/i,
+  /^null$/,
+]
+
+const EDITED_SUFFIX = /\s*<(?:mensagem editada|this message was edited)>$/i
+
+export interface WhatsAppMessage {
+  /** Local time of the exporting phone, ISO without time zone */
+  sentAt: string
+  sender: string
+  text: string
+}
+
+export interface WhatsAppChat {
+  format: 'android' | 'ios'
+  messages: WhatsAppMessage[]
+  participants: number
+}
+
+export interface WhatsAppCandidate {
+  kind: 'forward' | 'link'
+  item: BatchItemInput
+  /** Times the message/link was posted */
+  occurrences: number
+  /** Distinct participants who posted it */
+  sharedBy: number
+  firstSeenAt: string
+  lastSeenAt: string
+  score: number
+}
+
+/**
+ * Chat text from the uploaded export: the .txt content as-is, or a
+ * `data:application/zip;base64,…` export (with media) from which the chat
+ * file is read.
+ */
+export function readWhatsAppExport(content: string): { ok: true; text: string } | { ok: false; message: string } {
+  const zip = content.match(/^data:application\/(?:zip|x-zip-compressed|octet-stream);base64,(.+)$/is)
+  if (!zip) {
+    if (content.startsWith('data:')) return { ok: false, message: 'Envie o arquivo .txt ou .zip exportado pelo WhatsApp.' }
+    return { ok: true, text: content }
+  }
+
+  let files: Record<string, Uint8Array>
+  let tooLarge = false
+  let totalBytes = 0
+  try {
+    // Only the chat file is decompressed — media attachments are skipped. The
+    // declared size also bounds the output buffer, so a zip bomb is refused
+    // before it is inflated.
+    files = unzipSync(new Uint8Array(Buffer.from(zip[1], 'base64')), {
+      filter: f => {
+        if (!/\.txt$/i.test(f.name)) return false
+        totalBytes += f.originalSize
+        if (f.originalSize > ZIP_MAX_ENTRY_BYTES || totalBytes > ZIP_MAX_TOTAL_BYTES) {
+          tooLarge = true
+          return false
+        }
+        return true
+      },
+    })
+  } catch {
+    return { ok: false, message: 'Não foi possível abrir o arquivo .zip.' }
+  }
+  if (tooLarge) return { ok: false, message: 'A conversa dentro do .zip é grande demais. Envie um trecho menor ou o arquivo .txt.' }
+
+  const names = Object.keys(files)
+  const chatFile = names.find(n => /(^|\/)_chat\.txt$/i.test(n))
+    || names.find(n => /whatsapp|conversa/i.test(n))
+    || names[0]
+  if (!chatFile) return { ok: false, message: 'O .zip não contém a conversa exportada (arquivo .txt).' }
+
+  return { ok: true, text: strFromU8(files[chatFile]) }
+}
+
+/**
+ * Parse an export into messages. Lines without a timestamp continue the
+ * previous message; system notices (no "Name: ") and media placeholders are
+ * dropped. Day/month order is inferred from the dates in the file.
+ */
+export function parseWhatsAppChat(raw: string): WhatsAppChat | null {
+  const lines = raw.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n').map(l => l.replace(/^[\u200e\u200f]+/, ''))
+
+  const androidHits = lines.filter(l => ANDROID_LINE.test(l)).length
+  const iosHits = lines.filter(l => IOS_LINE.test(l)).length
+  if (androidHits === 0 && iosHits === 0) return null
+  const format = iosHits > androidHits ? 'ios' : 'android'
+  const pattern = format === 'ios' ? IOS_LINE : ANDROID_LINE
+
+  // Day-first (pt-BR) unless the file proves otherwise, or uses a 12h clock without proof
+  const matches = lines.map(l => l.match(pattern))
+  const heads = matches.filter((m): m is RegExpMatchArray => !!m)
+  const dayFirst = heads.some(m => Number(m[1]) > 12) ? true
+    : heads.some(m => Number(m[2]) > 12) ? false
+    : !heads.some(m => m[7])
+
+  const messages: WhatsAppMessage[] = []
+  let current: WhatsAppMessage | null = null
+
+  lines.forEach((line, i) => {
+    const m = matches[i]
+    if (!m) {
+      if (current) current.text += `\n${line}`
+      return
+    }
+
+    const [, a, b, y, h, min, sec = '00', ampm, rest] = m
+    const day = Number(dayFirst ? a : b)
+    const month = Number(dayFirst ? b : a)
+    const year = y.length === 2 ? 2000 + Number(y) : Number(y)
+    let hour = Number(h)
+    if (ampm) hour = (hour % 12) + (ampm.toLowerCase() === 'p' ? 12 : 0)
+    const pad = (n: number | string) => String(n).padStart(2, '0')
+    const sentAt = `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(min)}:${pad(sec)}`
+
+    const sep = rest.indexOf(': ')
+    current = sep > 0 ? { sentAt, sender: rest.slice(0, sep).trim(), text: rest.slice(sep + 2) } : null
+    if (current) messages.push(current)
+  })
+
+  const cleaned = messages
+    // iOS prefixes system notices ("Messages and calls are end-to-end encrypted") and attachments with U+200E
+    .filter(msg => !/^[\u200e\u200f]/.test(msg.text))
+    .map(msg => ({ ...msg, text: msg.text.replace(EDITED_SUFFIX, '').trim() }))
+    .filter(msg => msg.text && !MEDIA_PLACEHOLDERS.some(re => re.test(msg.text)))
+
+  return { format, messages: cleaned, participants: new Set(cleaned.map(m => m.sender)).size }
+}
+
+function extractLinks(text: string): string[] {
+  return (text.match(/https?:\/\/[^\s<>"']+/gi) || [])
+    .map(url => url.replace(/[.,;:!?)\]]+$/, ''))
+    .filter(url => {
+      try {
+        const host = new URL(url).hostname.replace(/^www\./, '')
+        return !IGNORED_LINK_HOSTS.some(h => host === h || host.endsWith(`.${h}`))
+      } catch {
+        return false
+      }
+    })
+}
+
+/**
+ * Chain-letter markers found in a message (0 = reads like regular chat).
+ * normalizeForFingerprint drops exactly these words, so only accents,
+ * case and punctuation are normalized here.
+ */
+function chainMarkerCount(text: string): number {
+  const normalized = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  return CHAIN_MARKERS.filter(marker => normalized.includes(marker)).length
+}
+
+/**
+ * Forwarded-looking messages and shared links, deduplicated and ranked by
+ * how widely they circulated in the chat (occurrences, distinct senders),
+ * then by how much they read like a chain message.
+ */
+export function findWhatsAppCandidates(messages: WhatsAppMessage[]): WhatsAppCandidate[] {
+  const entries: { kind: WhatsAppCandidate['kind']; item: BatchItemInput; msg: WhatsAppMessage; markers: number }[] = []
+
+  for (const msg of messages) {
+    for (const url of extractLinks(msg.text)) {
+      entries.push({ kind: 'link', item: { inputType: 'link', content: url }, msg, markers: 0 })
+    }
+    const prose = msg.text.replace(/https?:\/\/\S+/gi, '').trim()
+    if (prose.length >= MIN_FORWARD_CHARS) {
+      entries.push({ kind: 'forward', item: { inputType: 'text', content: msg.text.slice(0, 20_000) }, msg, markers: chainMarkerCount(msg.text) })
+    }
+  }
+
+  // Same fingerprint as /api/batch: forwarded copies with extra emoji or "URGENTE" collapse
+  const firstOf = dedupeBatch(entries.map(e => e.item))
+  const groups = new Map<number, typeof entries>()
+  firstOf.forEach((first, i) => groups.set(first, [...(groups.get(first) || []), entries[i]]))
+
+  const candidates: WhatsAppCandidate[] = []
+  groups.forEach(group => {
+    const [head] = group
+    const occurrences = group.length
+    const long = head.item.content.length >= LONG_MESSAGE_CHARS
+    // Ordinary chat is only kept when it reads like a forward or was reposted
+    if (head.kind === 'forward' && !long && head.markers === 0 && occurrences < 2) return
+
+    const sentAts = group.map(e => e.msg.sentAt).sort()
+    const sharedBy = new Set(group.map(e => e.msg.sender)).size
+    candidates.push({
+      kind: head.kind,
+      item: head.item,
+      occurrences,
+      sharedBy,
+      firstSeenAt: sentAts[0],
+      lastSeenAt: sentAts[sentAts.length - 1],
+      score: occurrences * 2 + sharedBy + head.markers + (long ? 1 : 0),
+    })
+  })
+
+  return candidates.sort((a, b) => b.score - a.score || b.lastSeenAt.localeCompare(a.lastSeenAt))
+}
+
+export interface WhatsAppExportPlan {
+  chat: { format: WhatsAppChat['format']; messages: number; participants: number; from?: string; to?: string }
+  /** Candidates found in the chat (before the WHATSAPP_MAX_CANDIDATES cut) */
+  found: number
+  /** Candidates to analyze, most widespread first */
+  candidates: WhatsAppCandidate[]
+  warnings: string[]
+}
+
+/**
+ * Read, parse and pick the messages to analyze from an uploaded export.
+ */
+export function planWhatsAppExport(content: string): { ok: true; plan: WhatsAppExportPlan } | { ok: false; message: string } {
+  const file = readWhatsAppExport(content)
+  if (!file.ok) return file
+
+  const chat = parseWhatsAppChat(file.text)
+  if (!chat || chat.messages.length === 0) {
+    return { ok: false, message: 'Não reconhecemos o formato da conversa. Use "Exportar conversa" no WhatsApp (Android ou iPhone) e envie o arquivo gerado.' }
+  }
+
+  const all = findWhatsAppCandidates(chat.messages)
+  const candidates = all.slice(0, WHATSAPP_MAX_CANDIDATES)
+  const warnings: string[] = []
+  if (all.length === 0) {
+    warnings.push('Nenhuma mensagem encaminhada ou link encontrado na conversa.')
+  } else if (all.length > candidates.length) {
+    warnings.push(`${all.length} mensagens e links candidatos encontrados; analisados os ${candidates.length} mais compartilhados.`)
+  }
+
+  const dates = chat.messages.map(m => m.sentAt).sort()
+  return {
+    ok: true,
+    plan: {
+      chat: { format: chat.format, messages: chat.messages.length, participants: chat.participants, from: dates[0], to: dates[dates.length - 1] },
+      found: all.length,
+      candidates,
+      warnings,
+    },
+  }
+}
+
+/**
+ * Per-message results ranked by risk (fake probability, then manipulation
+ * risk); failed analyses go last, in circulation order.
+ */
+export function rankWhatsAppResults(candidates: WhatsAppCandidate[], results: BatchItemResult[]) {
+  const risk = (r: BatchItemResult) => r.ok ? [r.result.scores?.fakeProbability ?? 0, r.result.scores?.manipulationRisk ?? 0] : [-1, -1]
+
+  return results
+    .map(r => ({ r, c: candidates[r.index] }))
+    .sort((a, b) => {
+      const [fa, ma] = risk(a.r)
+      const [fb, mb] = risk(b.r)
+      return fb - fa || mb - ma || a.r.index - b.r.index
+    })
+    .map(({ r, c }, i) => {
+      const { index: _index, duplicateOf: _dup, ...outcome } = r
+      const text = c.item.content
+      return {
+        rank: i + 1,
+        kind: c.kind,
+        excerpt: text.length > EXCERPT_CHARS ? `${text.slice(0, EXCERPT_CHARS)}…` : text,
+        occurrences: c.occurrences,
+        sharedBy: c.sharedBy,
+        firstSeenAt: c.firstSeenAt,
+        lastSeenAt: c.lastSeenAt,
+        ...outcome,
+      }
+    })
+}
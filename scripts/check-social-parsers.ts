@@ -0,0 +1,96 @@
+// check-social-parsers.ts
+// Regression check for the social network parsers (lib/services/extractor.social.ts):
+// runs each parser on its saved embed response in lib/services/__fixtures__/social/
+// and compares the text, author and date it reads (no network).
+//
+// Usage:
+// npm run test:social (part of npm test)
+//
+// (react-server lets the `server-only` modules load outside Next.js)
+
+import { readFileSync } from 'fs'
+import path from 'path'
+import type { ParsedPost } from '../lib/services/extractor.social'
+
+interface SocialCase {
+  fixture: string
+  parse: (body: string) => ParsedPost | null
+  expected: { text: string; author: string; authorName?: string; publishedAt?: string; forwardedFrom?: string }
+}
+
+const FIXTURES = path.join(__dirname, '..', 'lib', 'services', '__fixtures__', 'social')
+
+async function main() {
+  const { parseInstagramEmbed, parseTelegramEmbed, parseTikTokOEmbed, parseXEmbed } = await import('../lib/services/extractor.social')
+
+  const cases: SocialCase[] = [
+    {
+      fixture: 'x-tweet-embed.html',
+      parse: parseXEmbed,
+      expected: {
+        text: 'URGENTE: governo vai confiscar a poupança de todos os brasileiros a partir de segunda-feira, segundo decreto publicado hoje. Saquem tudo enquanto dá! & compartilhem',
+        author: 'alerta_brasil_24',
+        authorName: 'Alerta Brasil 24h',
+        publishedAt: '2024-03-08T14:22:10.000Z',
+      },
+    },
+    {
+      fixture: 'instagram-embed-captioned.html',
+      parse: html => parseInstagramEmbed(html, 'https://www.instagram.com/p/C4aBcDeFgHi/'),
+      expected: {
+        text: 'Chá de boldo com limão CURA a dengue em 24 horas! 🍋\n\nOs médicos não querem que você saiba disso. Compartilhe antes que apaguem!\n#saude #dengue #remedionatural',
+        author: 'saude.natural.brasil',
+        publishedAt: '2024-03-09T14:00:00.000Z',
+      },
+    },
+    {
+      fixture: 'tiktok-oembed.json',
+      parse: json => parseTikTokOEmbed(json, 'https://www.tiktok.com/@verdade.oculta.br/video/7345678901234567890'),
+      expected: {
+        text: 'Vacina da gripe tem chip de rastreamento 😱 assista até o final #vacina #verdade #acordabrasil',
+        author: 'verdade.oculta.br',
+        authorName: 'Verdade Oculta BR',
+        // From the video ID (its first 32 bits are the creation time)
+        publishedAt: '2024-03-13T03:05:46.000Z',
+      },
+    },
+    {
+      fixture: 'telegram-embed.html',
+      parse: parseTelegramEmbed,
+      expected: {
+        text: '🚨 ATENÇÃO 🚨\n\nAs urnas eletrônicas de 2022 foram hackeadas por um grupo estrangeiro, confirmou um técnico do TSE que pediu anonimato.\n\nRepassem para todos os grupos! exemplo-noticias.com.br/urnas',
+        author: 'noticias_alerta_br',
+        authorName: 'Notícias Alerta Brasil',
+        publishedAt: '2024-03-10T21:47:05.000Z',
+        forwardedFrom: 'Canal Patriota Oficial',
+      },
+    },
+  ]
+
+  let failures = 0
+
+  for (const c of cases) {
+    const problems: string[] = []
+    const parsed = c.parse(readFileSync(path.join(FIXTURES, c.fixture), 'utf8'))
+
+    if (!parsed) {
+      problems.push('parser returned null')
+    } else {
+      const actual: Record<string, unknown> = { text: parsed.text, ...parsed.post }
+      for (const [field, value] of Object.entries(c.expected)) {
+        if (actual[field] !== value) problems.push(`${field}: expected ${JSON.stringify(value)}, got ${JSON.stringify(actual[field])}`)
+      }
+    }
+
+    if (problems.length > 0) failures++
+    console.log(`${problems.length ? '✗' : '✓'} ${c.fixture}${problems.length ? `\n    ${problems.join('\n    ')}` : ''}`)
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} fixtures passed`)
+  if (failures > 0) process.exit(1)
+}
+
+main().catch(err => {
+  console.error(err)
+  process.exit(1)
+})
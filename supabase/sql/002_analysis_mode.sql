@@ -0,0 +1,7 @@
+-- Distinguish real model verdicts from parse-failure fallbacks
+-- mode values: 'mvp_no_external_sources' (validated model answer),
+--              'parse_fallback' (model answer invalid after repair attempts),
+--              'self_reference' (own domain, no model call)
+alter table analyses add column if not exists analysis_mode text;
+
+create index if not exists analyses_analysis_mode_idx on analyses (analysis_mode);
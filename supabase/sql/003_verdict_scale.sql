@@ -0,0 +1,15 @@
+-- Five-level verdict scale (Verdadeiro, Parcialmente verdadeiro, Enganoso, Falso, Inconclusivo)
+-- Maps historical three-level rows and recomputes is_flagged with the new rule.
+
+update analyses set verdict = 'Falso'      where verdict in ('Provavel fake', 'Provável fake');
+update analyses set verdict = 'Verdadeiro' where verdict in ('Provavel verdadeiro', 'Provável verdadeiro');
+update analyses set verdict = 'Inconclusivo'
+  where verdict is null
+     or verdict not in ('Verdadeiro', 'Parcialmente verdadeiro', 'Enganoso', 'Falso', 'Inconclusivo');
+
+update analyses
+  set is_flagged = (verdict in ('Falso', 'Enganoso') and coalesce(analysis_mode, '') <> 'parse_fallback');
+
+alter table analyses drop constraint if exists analyses_verdict_check;
+alter table analyses add constraint analyses_verdict_check
+  check (verdict in ('Verdadeiro', 'Parcialmente verdadeiro', 'Enganoso', 'Falso', 'Inconclusivo'));
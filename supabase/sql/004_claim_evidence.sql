@@ -0,0 +1,4 @@
+-- Per-claim evidence spans: claims[].span { start, end } are character offsets
+-- into analyzed_text (the sanitized text sent to the model).
+-- claims[] now also carries verdict, type and quote (stored in the jsonb column).
+alter table analyses add column if not exists analyzed_text text;
@@ -0,0 +1,5 @@
+-- Result cache keyed by fingerprint: keep the full analysis JSON so a repeat
+-- submission can be answered without a new model call.
+alter table analyses add column if not exists result jsonb;
+
+create index if not exists analyses_fingerprint_created_idx on analyses (fingerprint, created_at desc);
@@ -0,0 +1,19 @@
+-- Near-duplicate detection for lightly edited chain messages.
+-- normalized_fingerprint: SHA-256 of the text without accents/emoji/punctuation/forwarding noise
+-- simhash: 64-bit SimHash (hex) over word 3-shingles
+-- simhash_bands: the SimHash split into 6 position-tagged bands ("0:3f2"); a GIN
+--   overlap query finds candidates within 5 bits (see lib/fingerprint.ts)
+
+alter table analyses add column if not exists normalized_fingerprint text;
+alter table analyses add column if not exists simhash text;
+alter table analyses add column if not exists simhash_bands text[];
+
+create index if not exists analyses_normalized_fingerprint_idx on analyses (normalized_fingerprint);
+create index if not exists analyses_simhash_bands_idx on analyses using gin (simhash_bands);
+
+alter table trending_items add column if not exists normalized_fingerprint text;
+alter table trending_items add column if not exists simhash text;
+alter table trending_items add column if not exists simhash_bands text[];
+
+create index if not exists trending_items_normalized_fingerprint_idx on trending_items (normalized_fingerprint);
+create index if not exists trending_items_simhash_bands_idx on trending_items using gin (simhash_bands);
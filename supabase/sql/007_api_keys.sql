@@ -0,0 +1,57 @@
+-- API keys for programmatic access to /api/check.
+-- Only the SHA-256 of the key is stored; the plaintext is shown once at creation.
+-- key_prefix keeps the first characters ("fnv_live_ab12…") so users can tell keys apart.
+-- Quotas are enforced in Upstash (lib/apiKeys.ts); api_key_usage keeps per-day counters.
+
+create table if not exists api_keys (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz default now(),
+  owner_id uuid not null references profiles(id) on delete cascade,
+  name text not null,
+  key_prefix text not null,
+  key_hash text not null unique,
+  daily_limit int not null default 100,
+  monthly_limit int not null default 2000,
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists api_keys_owner_idx on api_keys (owner_id);
+
+create table if not exists api_key_usage (
+  api_key_id uuid not null references api_keys(id) on delete cascade,
+  day date not null default current_date,
+  requests int not null default 0,
+  primary key (api_key_id, day)
+);
+
+-- Atomic counter bump (called with the service role from the API route)
+create or replace function increment_api_key_usage(p_key_id uuid)
+returns void
+language sql
+as $$
+  insert into api_key_usage (api_key_id, day, requests)
+  values (p_key_id, current_date, 1)
+  on conflict (api_key_id, day) do update set requests = api_key_usage.requests + 1;
+  update api_keys set last_used_at = now() where id = p_key_id;
+$$;
+
+-- ===== RLS policies =====
+
+alter table api_keys enable row level security;
+
+create policy "Service role can manage all api keys"
+  on api_keys for all using (auth.role() = 'service_role');
+
+create policy "Users can read own api keys"
+  on api_keys for select using (auth.uid() = owner_id);
+
+alter table api_key_usage enable row level security;
+
+create policy "Service role can manage api key usage"
+  on api_key_usage for all using (auth.role() = 'service_role');
+
+create policy "Users can read own api key usage"
+  on api_key_usage for select using (
+    exists (select 1 from api_keys k where k.id = api_key_id and k.owner_id = auth.uid())
+  );
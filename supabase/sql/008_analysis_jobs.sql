@@ -0,0 +1,35 @@
+-- Asynchronous analysis jobs (POST /api/jobs, GET /api/jobs/:id).
+-- status: queued → extracting → analyzing → done | failed
+-- content holds the submitted input until the job finishes, then is cleared.
+-- webhook_secret signs the completion callback (returned once to the caller).
+
+create table if not exists analysis_jobs (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  started_at timestamptz,
+  finished_at timestamptz,
+  status text not null default 'queued'
+    check (status in ('queued', 'extracting', 'analyzing', 'done', 'failed')),
+  progress int not null default 0,
+  input_type text not null,
+  content text,
+  force boolean not null default false,
+  api_key_id uuid references api_keys(id) on delete set null,
+  analysis_id uuid references analyses(id) on delete set null,
+  result jsonb,
+  error_code text,
+  error_message text,
+  webhook_url text,
+  webhook_secret text,
+  webhook_status text check (webhook_status in ('pending', 'delivered', 'failed')),
+  webhook_attempts int not null default 0
+);
+
+create index if not exists analysis_jobs_status_idx on analysis_jobs (status, updated_at);
+
+alter table analysis_jobs enable row level security;
+
+-- Only service role reads/writes jobs (the job id is the capability for polling)
+create policy "Service role can manage analysis jobs"
+  on analysis_jobs for all using (auth.role() = 'service_role');
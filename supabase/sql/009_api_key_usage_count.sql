@@ -0,0 +1,14 @@
+-- Batch analysis (/api/batch) charges one request per unique item:
+-- increment_api_key_usage gains a count (default 1).
+
+drop function if exists increment_api_key_usage(uuid);
+
+create or replace function increment_api_key_usage(p_key_id uuid, p_count int default 1)
+returns void
+language sql
+as $$
+  insert into api_key_usage (api_key_id, day, requests)
+  values (p_key_id, current_date, p_count)
+  on conflict (api_key_id, day) do update set requests = api_key_usage.requests + p_count;
+  update api_keys set last_used_at = now() where id = p_key_id;
+$$;
@@ -0,0 +1,11 @@
+-- Perceptual hash of uploaded images, to find pictures that were already analyzed.
+-- image_phash: 64-bit DCT pHash (hex); re-compressed, resized or lightly cropped
+--   copies stay within a few bits
+-- image_phash_bands: the hash split into 6 position-tagged bands ("0:3f2"), same
+--   scheme as simhash_bands — a GIN overlap query finds candidates within 5 bits
+--   (see lib/imageForensics.ts)
+
+alter table analyses add column if not exists image_phash text;
+alter table analyses add column if not exists image_phash_bands text[];
+
+create index if not exists analyses_image_phash_bands_idx on analyses using gin (image_phash_bands);